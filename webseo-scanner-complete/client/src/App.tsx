@@ -4,11 +4,15 @@ import { queryClient } from "@/lib/queryClient";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import Home from "@/pages/home";
+import History from "@/pages/history";
+import Bulk from "@/pages/bulk";
 
 function Router() {
   return (
     <Switch>
       <Route path="/" component={Home} />
+      <Route path="/history/:domain" component={History} />
+      <Route path="/bulk" component={Bulk} />
       <Route component={Home} /> {/* Default route */}
     </Switch>
   );
@@ -0,0 +1,155 @@
+import type { AuditDiff } from "@shared/schema";
+
+interface AuditComparisonProps {
+  diff: AuditDiff;
+}
+
+const formatDateTime = (timestamp: string) =>
+  new Date(timestamp).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+
+const formatLabel = (key: string) =>
+  key.replace(/([A-Z])/g, ' $1').replace(/^./, str => str.toUpperCase());
+
+export default function AuditComparison({ diff }: AuditComparisonProps) {
+  const getStatusClass = (status: string | null) => {
+    switch (status) {
+      case 'good':
+        return 'status-good';
+      case 'warning':
+        return 'status-warning';
+      case 'error':
+        return 'status-error';
+      default:
+        return 'bg-gray-100 text-gray-800';
+    }
+  };
+
+  const getDeltaClass = (delta: number) => {
+    if (delta > 0) return 'text-green-600';
+    if (delta < 0) return 'text-red-600';
+    return 'text-gray-500';
+  };
+
+  return (
+    <div id="audit-comparison" className="glass-strong rounded-3xl p-8 shadow-2xl mb-12 animate-slide-up">
+      <div className="mb-6">
+        <h2 className="text-2xl font-bold text-gray-800">🔀 Changes Since Last Audit</h2>
+        <p className={`text-sm mt-1 ${diff.regressions > 0 ? 'text-red-600' : 'text-green-600'}`}>
+          {diff.regressions > 0 ? `${diff.regressions} regression${diff.regressions === 1 ? '' : 's'} detected` : 'No regressions detected'}
+        </p>
+      </div>
+
+      {/* Column headings */}
+      <div className="grid grid-cols-[1fr_auto_auto_auto] gap-x-4 gap-y-2 items-center text-sm mb-8">
+        <span />
+        <span className="text-xs text-gray-500 uppercase tracking-wide text-center">
+          Previous<br />{formatDateTime(diff.base.timestamp)}
+        </span>
+        <span className="text-xs text-gray-500 uppercase tracking-wide text-center">
+          Current<br />{formatDateTime(diff.current.timestamp)}
+        </span>
+        <span />
+
+        {/* Score deltas */}
+        {Object.entries(diff.scores).map(([key, score]) => (
+          <div key={key} className="contents">
+            <span className="font-medium text-gray-800">{formatLabel(key)}</span>
+            <span className="text-center text-gray-600">{score.before}</span>
+            <span className="text-center font-semibold text-gray-800">{score.after}</span>
+            <span className={`text-right font-semibold ${getDeltaClass(score.delta)}`}>
+              {score.delta > 0 ? `+${score.delta}` : score.delta}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      {/* Meta status changes */}
+      {diff.metaChanges.length > 0 && (
+        <div className="mb-8">
+          <h3 className="font-semibold text-gray-800 mb-3">🏷️ Meta Tag Changes</h3>
+          <div className="space-y-2">
+            {diff.metaChanges.map(change => (
+              <div key={change.name} className={`p-3 rounded-lg ${change.regression ? 'bg-red-50' : 'bg-gray-50'}`}>
+                <div className="flex justify-between items-center gap-2">
+                  <span className="font-medium text-gray-800">{change.name}</span>
+                  <div className="flex items-center gap-2 text-xs">
+                    <span className={`px-2 py-1 rounded-full font-semibold ${getStatusClass(change.before)}`}>
+                      {change.before || 'none'}
+                    </span>
+                    →
+                    <span className={`px-2 py-1 rounded-full font-semibold ${getStatusClass(change.after)}`}>
+                      {change.after || 'none'}
+                    </span>
+                  </div>
+                </div>
+                <div className="text-xs text-gray-600 mt-1">{change.description}</div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Newly broken links */}
+      {diff.newlyBrokenLinks.length > 0 && (
+        <div className="mb-8">
+          <h3 className="font-semibold text-gray-800 mb-3">🔗 Newly Broken Links</h3>
+          <ul className="space-y-2 text-sm">
+            {diff.newlyBrokenLinks.map(link => (
+              <li key={link.url} className="p-3 bg-red-50 rounded-lg">
+                <div className="text-red-700 break-all">{link.url}</div>
+                <div className="text-xs text-gray-600 mt-1">
+                  {link.type} · {link.statusCode ? `HTTP ${link.statusCode}` : 'no response'}
+                  {link.text && ` · "${link.text}"`}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Removed headers */}
+      {diff.removedHeaders.length > 0 && (
+        <div className="mb-8">
+          <h3 className="font-semibold text-gray-800 mb-3">🔒 Headers No Longer Sent</h3>
+          <ul className="space-y-2 text-sm">
+            {diff.removedHeaders.map(header => (
+              <li key={header.name} className="p-3 bg-red-50 rounded-lg">
+                <div className="font-medium text-red-700">{header.name}</div>
+                {header.value && <div className="text-xs text-gray-600 mt-1 break-all">was: {header.value}</div>}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Recommendations added / resolved */}
+      {(diff.recommendations.added.length > 0 || diff.recommendations.resolved.length > 0) && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <h3 className="font-semibold text-gray-800 mb-3">➕ New Recommendations</h3>
+            <ul className="space-y-2 text-sm">
+              {diff.recommendations.added.map(rec => (
+                <li key={rec.title} className="p-3 bg-yellow-50 rounded-lg text-gray-800">{rec.title}</li>
+              ))}
+              {diff.recommendations.added.length === 0 && <li className="text-gray-500">None</li>}
+            </ul>
+          </div>
+          <div>
+            <h3 className="font-semibold text-gray-800 mb-3">✅ Resolved</h3>
+            <ul className="space-y-2 text-sm">
+              {diff.recommendations.resolved.map(rec => (
+                <li key={rec.title} className="p-3 bg-green-50 rounded-lg text-gray-800">{rec.title}</li>
+              ))}
+              {diff.recommendations.resolved.length === 0 && <li className="text-gray-500">None</li>}
+            </ul>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,14 +1,29 @@
 import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { auditAPI } from "@/lib/api";
 
 interface AuditFormProps {
-  onAudit: (url: string) => void;
+  onAudit: (url: string, profile?: string) => void;
   isLoading: boolean;
 }
 
+// Select items can't have an empty value, so the built-in defaults get a sentinel
+const DEFAULT_PROFILE = "__default__";
+
 export default function AuditForm({ onAudit, isLoading }: AuditFormProps) {
   const [url, setUrl] = useState("");
+  const [profile, setProfile] = useState(DEFAULT_PROFILE);
+
+  const { data: profiles } = useQuery({
+    queryKey: ['/api/profiles'],
+    queryFn: () => auditAPI.getProfiles(),
+  });
+
+  const selectedProfile = profile === DEFAULT_PROFILE ? undefined : profile;
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -26,7 +41,7 @@ export default function AuditForm({ onAudit, isLoading }: AuditFormProps) {
       // Validate complete URL
       try {
         new URL(validatedUrl);
-        onAudit(validatedUrl);
+        onAudit(validatedUrl, selectedProfile);
         return;
       } catch (error) {
         alert("Please enter a valid URL (e.g., https://example.com or example.com)");
@@ -43,7 +58,7 @@ export default function AuditForm({ onAudit, isLoading }: AuditFormProps) {
       
       // Add https protocol for the audit
       validatedUrl = 'https://' + validatedUrl;
-      onAudit(validatedUrl);
+      onAudit(validatedUrl, selectedProfile);
     }
   };
 
@@ -62,6 +77,19 @@ export default function AuditForm({ onAudit, isLoading }: AuditFormProps) {
           className="flex-1 px-6 py-4 text-lg bg-gray-50 border-2 border-gray-200 rounded-xl focus:bg-white focus:border-primary transition-all duration-300"
           disabled={isLoading}
         />
+        {profiles && profiles.length > 0 && (
+          <Select value={profile} onValueChange={setProfile} disabled={isLoading}>
+            <SelectTrigger className="md:w-48 h-auto px-4 py-4 text-lg bg-gray-50 border-2 border-gray-200 rounded-xl" aria-label="Audit profile">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={DEFAULT_PROFILE}>Default checks</SelectItem>
+              {profiles.map((option) => (
+                <SelectItem key={option.id} value={option.name}>{option.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
         <Button
           type="submit"
           disabled={isLoading || !url.trim()}
@@ -80,6 +108,13 @@ export default function AuditForm({ onAudit, isLoading }: AuditFormProps) {
         </Button>
       </form>
 
+      <p className="text-center text-sm text-gray-600 -mt-4 mb-8">
+        Auditing a list of pages?{' '}
+        <Link href="/bulk" className="font-medium text-blue-700 hover:underline">
+          Run a bulk audit
+        </Link>
+      </p>
+
       {/* API Endpoints Indicator */}
       <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-3 text-sm">
         {[
@@ -0,0 +1,137 @@
+import type { AuditEvent, AuditResult } from "@shared/schema";
+import ResultsDisplay from "@/components/results-display";
+
+interface AuditProgressProps {
+  // Events received so far for the running audit, oldest first
+  events: AuditEvent[];
+}
+
+interface AnalyzerProgress {
+  id: string;
+  name: string;
+  status: 'pending' | 'running' | 'done' | 'failed';
+  durationMs?: number;
+  checks?: { good: number; warning: number; error: number };
+  result?: unknown;
+  error?: string;
+}
+
+function summarizeProgress(events: AuditEvent[]): { url?: string; analyzers: AnalyzerProgress[] } {
+  const start = events.find(event => event.type === 'start');
+  if (!start || start.type !== 'start') {
+    return { analyzers: [] };
+  }
+
+  const analyzers = new Map<string, AnalyzerProgress>(
+    start.analyzers.map(({ id, name }) => [id, { id, name, status: 'pending' }])
+  );
+
+  events.forEach(event => {
+    const analyzer = 'analyzer' in event ? analyzers.get(event.analyzer) : undefined;
+    if (!analyzer) return;
+
+    switch (event.type) {
+      case 'analyzer-start':
+        analyzer.status = 'running';
+        break;
+      case 'analyzer-done':
+        Object.assign(analyzer, { status: 'done', durationMs: event.durationMs, checks: event.checks, result: event.result });
+        break;
+      case 'analyzer-failed':
+        Object.assign(analyzer, { status: 'failed', durationMs: event.durationMs, error: event.error });
+        break;
+    }
+  });
+
+  return { url: start.url, analyzers: Array.from(analyzers.values()) };
+}
+
+// Scores and recommendations only come with the complete audit, so this holds just the analyzer results
+function partialResults(url: string, analyzers: AnalyzerProgress[]): AuditResult {
+  return {
+    url,
+    timestamp: new Date().toISOString(),
+    scores: { overall: 0, technical: 0, content: 0, performance: 0, mobile: 0 },
+    ...Object.fromEntries(analyzers.filter(analyzer => analyzer.result !== undefined).map(analyzer => [analyzer.id, analyzer.result])),
+  };
+}
+
+const formatDuration = (ms: number) => ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+
+export default function AuditProgress({ events }: AuditProgressProps) {
+  const { url, analyzers } = summarizeProgress(events);
+  const finished = analyzers.filter(analyzer => analyzer.status === 'done' || analyzer.status === 'failed').length;
+
+  const getStatusIcon = (status: AnalyzerProgress['status']) => {
+    switch (status) {
+      case 'done':
+        return <span className="text-green-600 font-bold">✓</span>;
+      case 'failed':
+        return <span className="text-red-600 font-bold">✗</span>;
+      case 'running':
+        return <div className="spinner-small"></div>;
+      default:
+        return <span className="text-gray-400">•</span>;
+    }
+  };
+
+  const describeChecks = (checks: NonNullable<AnalyzerProgress['checks']>) => {
+    const parts = [`${checks.good} passed`];
+    if (checks.warning > 0) parts.push(`${checks.warning} warning${checks.warning === 1 ? '' : 's'}`);
+    if (checks.error > 0) parts.push(`${checks.error} error${checks.error === 1 ? '' : 's'}`);
+    return parts.join(' · ');
+  };
+
+  return (
+    <>
+      <div className="glass-strong rounded-3xl p-12 shadow-2xl text-center mb-12 animate-fade-in">
+        <div className="spinner mx-auto mb-6"></div>
+        <h3 className="text-2xl font-semibold mb-4 text-gray-800">
+          Analyzing your website...
+        </h3>
+        <p className="text-gray-600 mb-8 break-all">
+          {analyzers.length > 0
+            ? `${finished} of ${analyzers.length} analyzers finished for ${url}`
+            : 'Starting the audit'}
+        </p>
+
+        {analyzers.length > 0 && (
+          <div className="max-w-2xl mx-auto space-y-3 text-left">
+            <div className="h-2 bg-gray-200 rounded-full overflow-hidden mb-6">
+              <div
+                className="h-full bg-blue-500 transition-all duration-500"
+                style={{ width: `${Math.round(100 * finished / analyzers.length)}%` }}
+              />
+            </div>
+
+            {analyzers.map(analyzer => (
+              <div
+                key={analyzer.id}
+                className={`flex items-center justify-between gap-4 p-3 bg-gray-50 rounded-lg transition-opacity duration-500 ${analyzer.status === 'pending' ? 'opacity-60' : ''}`}
+              >
+                <span className="text-sm font-medium text-gray-800">{analyzer.name}</span>
+                <span className="flex items-center gap-3 text-xs text-gray-600 text-right">
+                  {analyzer.status === 'done' && (
+                    <span>
+                      {analyzer.checks && analyzer.checks.good + analyzer.checks.warning + analyzer.checks.error > 0
+                        ? `${describeChecks(analyzer.checks)} · `
+                        : ''}
+                      {formatDuration(analyzer.durationMs || 0)}
+                    </span>
+                  )}
+                  {analyzer.status === 'failed' && <span className="text-red-600">{analyzer.error}</span>}
+                  {analyzer.status === 'running' && <span>Running...</span>}
+                  {getStatusIcon(analyzer.status)}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {url && analyzers.some(analyzer => analyzer.result !== undefined) && (
+        <ResultsDisplay results={partialResults(url, analyzers)} partial />
+      )}
+    </>
+  );
+}
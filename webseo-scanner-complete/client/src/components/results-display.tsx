@@ -2,17 +2,32 @@ import { useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 import { Button } from "@/components/ui/button";
-import { ChevronDown, ChevronRight, Download } from "lucide-react";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { Link } from "wouter";
+import { ChevronDown, ChevronRight, Download, FileDown, History } from "lucide-react";
 import jsPDF from "jspdf";
 import html2canvas from "html2canvas";
-import type { AuditResult } from "@shared/schema";
+import type { AuditResult, ScoreCategory, StoredAudit } from "@shared/schema";
+import ScoreBreakdownPanel from "@/components/score-breakdown";
+import { auditAPI } from "@/lib/api";
 
 interface ResultsDisplayProps {
-  results: AuditResult;
+  // Stored audits also carry the id their exports are fetched by
+  results: AuditResult | StoredAudit;
+  // Results of the analyzers that have finished in a running audit: only their sections are shown
+  partial?: boolean;
 }
 
-export default function ResultsDisplay({ results }: ResultsDisplayProps) {
+const EXPORT_FORMATS = [
+  { format: 'json', label: 'JSON' },
+  { format: 'csv', label: 'CSV' },
+  { format: 'junit', label: 'JUnit XML' },
+  { format: 'sarif', label: 'SARIF' },
+] as const;
+
+export default function ResultsDisplay({ results, partial = false }: ResultsDisplayProps) {
   const [openSections, setOpenSections] = useState<Record<string, boolean>>({});
+  const [openBreakdown, setOpenBreakdown] = useState<ScoreCategory | 'overall' | null>(null);
 
   const toggleSection = (sectionId: string) => {
     setOpenSections(prev => ({
@@ -129,7 +144,7 @@ export default function ResultsDisplay({ results }: ResultsDisplayProps) {
 
         pdf.setFontSize(16);
         pdf.setFont('helvetica', 'bold');
-        pdf.text('PageSpeed Analysis', margin, yPosition);
+        pdf.text(results.speed.estimated ? 'Performance Analysis (estimated)' : 'PageSpeed Analysis', margin, yPosition);
         yPosition += 15;
 
         if (results.speed.performance) {
@@ -152,7 +167,11 @@ export default function ResultsDisplay({ results }: ResultsDisplayProps) {
           pdf.setFont('helvetica', 'normal');
           pdf.text(`• Largest Contentful Paint: ${results.speed.coreWebVitals.lcp}`, margin + 5, yPosition);
           yPosition += 7;
-          pdf.text(`• First Input Delay: ${results.speed.coreWebVitals.fid}`, margin + 5, yPosition);
+          if (!results.speed.coreWebVitals.inp && results.speed.coreWebVitals.fid) {
+            pdf.text(`• First Input Delay: ${results.speed.coreWebVitals.fid}`, margin + 5, yPosition);
+          } else {
+            pdf.text(`• Interaction to Next Paint: ${results.speed.coreWebVitals.inp ?? 'N/A'}`, margin + 5, yPosition);
+          }
           yPosition += 7;
           pdf.text(`• Cumulative Layout Shift: ${results.speed.coreWebVitals.cls}`, margin + 5, yPosition);
           yPosition += 15;
@@ -219,7 +238,7 @@ export default function ResultsDisplay({ results }: ResultsDisplayProps) {
         yPosition += 15;
 
         pdf.setFont('helvetica', 'normal');
-        pdf.text(`Internal Links: ${results.links.internal.links.length} (${results.links.internal.broken} broken)`, margin, yPosition);
+        pdf.text(`Internal Links: ${results.links.internal.total || results.links.internal.links.length} (${results.links.internal.broken} broken)`, margin, yPosition);
         yPosition += 8;
         pdf.text(`External Links: ${results.links.external.total || results.links.external.links.length} (${results.links.external.broken} broken)`, margin, yPosition);
         yPosition += 15;
@@ -284,37 +303,104 @@ export default function ResultsDisplay({ results }: ResultsDisplayProps) {
   return (
     <div id="audit-results" className="glass-strong rounded-3xl p-8 md:p-12 shadow-2xl mb-12 animate-slide-up">
       <div className="flex justify-between items-center mb-8">
-        <h2 className="text-3xl font-bold text-gray-800">
-          📈 SEO Audit Results
-        </h2>
-        <Button
-          onClick={downloadPDF}
-          className="flex items-center gap-2 px-6 py-3 gradient-primary text-white font-semibold rounded-xl btn-hover"
-        >
-          <Download className="h-5 w-5" />
-          Download PDF Report
-        </Button>
+        <div>
+          <h2 className="text-3xl font-bold text-gray-800">
+            {partial ? '📈 Results So Far' : '📈 SEO Audit Results'}
+          </h2>
+          {results.profile && (
+            <p className="text-sm text-gray-500 mt-1">Audit profile: {results.profile}</p>
+          )}
+        </div>
+        {!partial && (
+          <div className="flex gap-3">
+            <Link href={`/history/${new URL(results.url).hostname}`}>
+              <Button
+                variant="outline"
+                className="flex items-center gap-2 px-6 py-3 font-semibold rounded-xl"
+              >
+                <History className="h-5 w-5" />
+                View History
+              </Button>
+            </Link>
+            {/* Exports are built from the stored audit, so unsaved results only get the PDF */}
+            {'id' in results && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    variant="outline"
+                    className="flex items-center gap-2 px-6 py-3 font-semibold rounded-xl"
+                  >
+                    <FileDown className="h-5 w-5" />
+                    Export
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  {EXPORT_FORMATS.map(({ format, label }) => (
+                    <DropdownMenuItem key={format} asChild>
+                      <a href={auditAPI.getAuditExportUrl(results.id, format)} download>
+                        {label}
+                      </a>
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
+            <Button
+              onClick={downloadPDF}
+              className="flex items-center gap-2 px-6 py-3 gradient-primary text-white font-semibold rounded-xl btn-hover"
+            >
+              <Download className="h-5 w-5" />
+              Download PDF Report
+            </Button>
+          </div>
+        )}
       </div>
 
-      {/* Backend Status Indicator */}
-      <div className="text-center mb-8 p-4 bg-green-50 border border-green-200 rounded-xl">
-        <span className="text-green-700 font-medium">✅ Connected to Express.js Backend</span>
-        <span className="text-sm text-green-600 block mt-1">All 6 API endpoints operational</span>
-      </div>
+      {!partial && (
+        <>
+          {/* Backend Status Indicator */}
+          <div className="text-center mb-8 p-4 bg-green-50 border border-green-200 rounded-xl">
+            <span className="text-green-700 font-medium">✅ Connected to Express.js Backend</span>
+            <span className="text-sm text-green-600 block mt-1">All 6 API endpoints operational</span>
+          </div>
 
-      {/* Score Overview */}
-      <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-12">
-        {Object.entries(results.scores).map(([key, score]) => (
-          <div key={key} className="text-center p-6 gradient-card rounded-2xl border-2 border-gray-200">
-            <div className={`text-4xl font-bold mb-2 ${getScoreColor(score)}`}>
-              {score}
-            </div>
-            <div className="text-sm text-gray-600 uppercase tracking-wide">
-              {key.replace(/([A-Z])/g, ' $1').replace(/^./, str => str.toUpperCase())}
-            </div>
+          {/* Score Overview */}
+          <div className={`grid grid-cols-2 md:grid-cols-5 gap-4 ${openBreakdown && results.scoreBreakdown ? 'mb-4' : 'mb-12'}`}>
+            {Object.entries(results.scores).map(([key, score]) => (
+              <div key={key} className={`text-center p-6 gradient-card rounded-2xl border-2 ${openBreakdown === key ? 'border-indigo-400' : 'border-gray-200'}`}>
+                <div className={`text-4xl font-bold mb-2 ${getScoreColor(score)}`}>
+                  {score}
+                </div>
+                <div className="text-sm text-gray-600 uppercase tracking-wide">
+                  {key.replace(/([A-Z])/g, ' $1').replace(/^./, str => str.toUpperCase())}
+                </div>
+                {results.estimatedScores?.includes(key as ScoreCategory) && (
+                  <div className="text-xs text-gray-500 mt-1" title="Estimated from server-side measurements; set PAGESPEED_API_KEY for Lighthouse scores">
+                    estimated
+                  </div>
+                )}
+                {results.scoreBreakdown && (
+                  <button
+                    type="button"
+                    onClick={() => setOpenBreakdown(openBreakdown === key ? null : key as ScoreCategory | 'overall')}
+                    className="inline-flex items-center gap-1 text-xs text-indigo-600 hover:text-indigo-800 mt-2"
+                  >
+                    {openBreakdown === key ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+                    Why?
+                  </button>
+                )}
+              </div>
+            ))}
           </div>
-        ))}
-      </div>
+
+          {/* Score Breakdown */}
+          {openBreakdown && results.scoreBreakdown && (
+            <div className="mb-12">
+              <ScoreBreakdownPanel breakdown={results.scoreBreakdown} category={openBreakdown} />
+            </div>
+          )}
+        </>
+      )}
 
       {/* Error Messages */}
       {results.errors && results.errors.length > 0 && (
@@ -342,11 +428,15 @@ export default function ResultsDisplay({ results }: ResultsDisplayProps) {
                   <CardTitle className="flex items-center justify-between">
                     <div className="flex items-center">
                       <span className="mr-3 text-blue-600">⚡</span>
-                      PageSpeed Analysis
+                      {results.speed.estimated ? 'Performance Estimate' : 'PageSpeed Analysis'}
                     </div>
                     {openSections.speed ? <ChevronDown className="h-5 w-5" /> : <ChevronRight className="h-5 w-5" />}
                   </CardTitle>
-                  <p className="text-sm text-gray-600 mt-1">Google PageSpeed Insights API integration</p>
+                  <p className="text-sm text-gray-600 mt-1">
+                    {results.speed.estimated
+                      ? 'Server-side measurements; scores are estimates without a PageSpeed API key'
+                      : 'Google PageSpeed Insights API integration'}
+                  </p>
                 </CardHeader>
               </CollapsibleTrigger>
               <CollapsibleContent>
@@ -362,9 +452,11 @@ export default function ResultsDisplay({ results }: ResultsDisplayProps) {
                       </div>
                       <div className="text-center p-4 bg-yellow-50 rounded-xl">
                         <div className="text-2xl font-bold text-yellow-700">
-                          {results.speed.coreWebVitals.fid}
+                          {results.speed.coreWebVitals.inp ?? results.speed.coreWebVitals.fid ?? 'N/A'}
+                        </div>
+                        <div className="text-sm text-yellow-600">
+                          {!results.speed.coreWebVitals.inp && results.speed.coreWebVitals.fid ? 'First Input Delay' : 'Interaction to Next Paint'}
                         </div>
-                        <div className="text-sm text-yellow-600">First Input Delay</div>
                       </div>
                       <div className="text-center p-4 bg-green-50 rounded-xl">
                         <div className="text-2xl font-bold text-green-700">
@@ -375,11 +467,137 @@ export default function ResultsDisplay({ results }: ResultsDisplayProps) {
                     </div>
                   )}
                   
+                  {/* Server-side measurements */}
+                  {results.speed.local && (
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+                      <div className="text-center p-4 bg-gray-50 rounded-xl">
+                        <div className="text-2xl font-bold text-gray-800">{results.speed.local.ttfbMs}ms</div>
+                        <div className="text-sm text-gray-600">Time to First Byte</div>
+                      </div>
+                      <div className="text-center p-4 bg-gray-50 rounded-xl">
+                        <div className="text-2xl font-bold text-gray-800">{Math.round(results.speed.local.totalBytes / 1024)}KB</div>
+                        <div className="text-sm text-gray-600">Transfer Size</div>
+                      </div>
+                      <div className="text-center p-4 bg-gray-50 rounded-xl">
+                        <div className="text-2xl font-bold text-gray-800">
+                          {results.speed.local.renderBlocking.scripts + results.speed.local.renderBlocking.stylesheets}
+                        </div>
+                        <div className="text-sm text-gray-600">
+                          Render-Blocking ({Math.round(results.speed.local.renderBlocking.bytes / 1024)}KB)
+                        </div>
+                      </div>
+                      <div className="text-center p-4 bg-gray-50 rounded-xl">
+                        <div className="text-2xl font-bold text-gray-800">{Math.round(results.speed.local.images.bytes / 1024)}KB</div>
+                        <div className="text-sm text-gray-600">Images ({results.speed.local.images.count})</div>
+                      </div>
+                      <div className="text-center p-4 bg-gray-50 rounded-xl">
+                        <div className="text-2xl font-bold text-gray-800">{results.speed.local.compression || 'none'}</div>
+                        <div className="text-sm text-gray-600">HTML Compression</div>
+                      </div>
+                      <div className="text-center p-4 bg-gray-50 rounded-xl">
+                        <div className="text-2xl font-bold text-gray-800">{results.speed.local.httpVersion === 'h2' ? 'HTTP/2' : 'HTTP/1.1'}</div>
+                        <div className="text-sm text-gray-600">Protocol</div>
+                      </div>
+                      <div className="text-center p-4 bg-gray-50 rounded-xl">
+                        <div className="text-2xl font-bold text-gray-800">{(results.speed.local.estimatedLoadMs.desktop / 1000).toFixed(1)}s</div>
+                        <div className="text-sm text-gray-600">Est. Load (Desktop)</div>
+                      </div>
+                      <div className="text-center p-4 bg-gray-50 rounded-xl">
+                        <div className="text-2xl font-bold text-gray-800">{(results.speed.local.estimatedLoadMs.mobile / 1000).toFixed(1)}s</div>
+                        <div className="text-sm text-gray-600">Est. Load (Mobile)</div>
+                      </div>
+                    </div>
+                  )}
+
+                  {/* Lighthouse categories */}
+                  {results.speed.categories && (
+                    <div className="grid grid-cols-[1fr_auto_auto] gap-x-6 gap-y-2 items-center text-sm mb-6">
+                      <span />
+                      <span className="text-xs text-gray-500 uppercase tracking-wide text-center">Desktop</span>
+                      <span className="text-xs text-gray-500 uppercase tracking-wide text-center">Mobile</span>
+                      {(['performance', 'accessibility', 'bestPractices', 'seo'] as const).map((category) => (
+                        <div key={category} className="contents">
+                          <span className="font-medium text-gray-800">
+                            {category === 'seo' ? 'SEO' : category.replace(/([A-Z])/g, ' $1').replace(/^./, str => str.toUpperCase())}
+                          </span>
+                          {[results.speed!.categories!.desktop, results.speed!.categories!.mobile].map((scores, index) => {
+                            const score = scores?.[category];
+                            return (
+                              <span key={index} className={`text-center font-semibold ${score == null ? 'text-gray-400' : getScoreColor(score)}`}>
+                                {score ?? '–'}
+                              </span>
+                            );
+                          })}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  {/* Real-user field data next to the lab run */}
+                  {results.speed.fieldData && (
+                    <div className="grid grid-cols-[1fr_auto_auto_auto] gap-x-6 gap-y-2 items-center text-sm mb-6">
+                      <span />
+                      <span className="text-xs text-gray-500 uppercase tracking-wide text-center">Field (URL)</span>
+                      <span className="text-xs text-gray-500 uppercase tracking-wide text-center">Field (Origin)</span>
+                      <span className="text-xs text-gray-500 uppercase tracking-wide text-center">Lab (Mobile)</span>
+                      {([
+                        ['lcp', 'Largest Contentful Paint'],
+                        ['inp', 'Interaction to Next Paint'],
+                        ['cls', 'Cumulative Layout Shift'],
+                        ['fcp', 'First Contentful Paint'],
+                        ['ttfb', 'Time to First Byte']
+                      ] as const).map(([metric, label]) => {
+                        const lab = metric === 'inp' ? null : results.speed!.labMetrics?.mobile?.[metric];
+                        const format = (value: number) => metric === 'cls' ? value.toFixed(2) : `${Math.round(value)}ms`;
+                        return (
+                          <div key={metric} className="contents">
+                            <span className="font-medium text-gray-800">{label}</span>
+                            {[results.speed!.fieldData!.url, results.speed!.fieldData!.origin].map((field, index) => {
+                              const value = field?.metrics[metric];
+                              return value ? (
+                                <span key={index} className={`px-2 py-0.5 rounded-full text-center font-semibold ${getStatusClass(value.category === 'good' ? 'good' : value.category === 'poor' ? 'error' : 'warning')}`}>
+                                  {format(value.percentile)}
+                                </span>
+                              ) : (
+                                <span key={index} className="text-center text-gray-400">–</span>
+                              );
+                            })}
+                            <span className={`text-center ${lab == null ? 'text-gray-400' : 'text-gray-700'}`}>
+                              {lab == null ? '–' : format(lab)}
+                            </span>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  )}
+
+                  {/* Lighthouse opportunities */}
+                  {results.speed.opportunities && results.speed.opportunities.length > 0 && (
+                    <div className="mb-6 space-y-3">
+                      <h4 className="font-semibold text-gray-800">Opportunities & Diagnostics</h4>
+                      {results.speed.opportunities.map((opportunity) => (
+                        <div key={opportunity.id} className="flex justify-between items-start p-4 bg-gray-50 rounded-lg">
+                          <div className="flex-1 min-w-0">
+                            <div className="font-medium text-gray-800">{opportunity.title}</div>
+                            <div className="text-sm text-gray-600 mt-1">{opportunity.description}</div>
+                          </div>
+                          <span className={`px-3 py-1 rounded-full text-sm font-semibold ${getStatusClass('warning')} ml-4 whitespace-nowrap`}>
+                            {opportunity.savingsMs
+                              ? `-${(opportunity.savingsMs / 1000).toFixed(1)}s`
+                              : opportunity.savingsBytes
+                                ? `-${Math.round(opportunity.savingsBytes / 1024)}KB`
+                                : opportunity.displayValue || opportunity.type}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
                   {/* Performance Scores */}
                   <div className="space-y-3">
                     {results.speed.performance && (
                       <div className="flex justify-between items-center p-3 border-b border-gray-100">
-                        <span className="font-medium">Desktop Performance Score</span>
+                        <span className="font-medium">Desktop Performance Score{results.speed.estimated && ' (estimated)'}</span>
                         <span className={`px-3 py-1 rounded-full text-sm font-semibold ${getStatusClass('good')}`}>
                           {results.speed.performance.score}/100
                         </span>
@@ -387,7 +605,7 @@ export default function ResultsDisplay({ results }: ResultsDisplayProps) {
                     )}
                     {results.speed.mobile && (
                       <div className="flex justify-between items-center p-3 border-b border-gray-100">
-                        <span className="font-medium">Mobile Performance Score</span>
+                        <span className="font-medium">Mobile Performance Score{results.speed.estimated && ' (estimated)'}</span>
                         <span className={`px-3 py-1 rounded-full text-sm font-semibold ${getStatusClass('good')}`}>
                           {results.speed.mobile.score}/100
                         </span>
@@ -469,7 +687,7 @@ export default function ResultsDisplay({ results }: ResultsDisplayProps) {
                   <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
                     <div className="text-center p-4 bg-blue-50 rounded-xl">
                       <div className="text-3xl font-bold text-blue-700">
-                        {results.links.internal.links.length}
+                        {results.links.internal.total || results.links.internal.links.length}
                       </div>
                       <div className="text-sm text-blue-600">Internal Links</div>
                     </div>
@@ -501,6 +719,28 @@ export default function ResultsDisplay({ results }: ResultsDisplayProps) {
                       </span>
                     </div>
                   </div>
+
+                  {/* Broken Links */}
+                  {results.links.brokenLinks && results.links.brokenLinks.length > 0 && (
+                    <div className="mt-6 space-y-3">
+                      <h4 className="font-semibold text-gray-800">Broken Links</h4>
+                      {results.links.brokenLinks.map((link, index) => (
+                        <div key={index} className="flex justify-between items-start p-4 bg-gray-50 rounded-lg">
+                          <div className="flex-1 min-w-0">
+                            <div className="font-medium text-gray-800 break-all">{link.url}</div>
+                            <div className="text-sm text-gray-600 mt-1">
+                              {link.text ? `Anchor text: "${link.text}"` : 'No anchor text'}
+                              {link.occurrences > 1 && ` · linked ${link.occurrences} times`}
+                              {link.error && ` · ${link.error}`}
+                            </div>
+                          </div>
+                          <span className={`px-3 py-1 rounded-full text-sm font-semibold ${getStatusClass('error')} ml-4 whitespace-nowrap`}>
+                            {link.statusCode ?? 'No response'}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
                 </CardContent>
               </CollapsibleContent>
             </Collapsible>
@@ -545,14 +785,91 @@ export default function ResultsDisplay({ results }: ResultsDisplayProps) {
                       <div>
                         <div className="font-medium text-gray-800">XML Sitemap</div>
                         <div className="text-sm text-gray-600 mt-1">
-                          {results.robots.sitemap.found ? `Found with ${results.robots.sitemap.urlCount} URLs` : 'Not found'}
+                          {results.robots.sitemap.found
+                            ? `Found with ${results.robots.sitemap.urlCount} URLs${results.robots.sitemap.files && results.robots.sitemap.files.length > 1 ? ` in ${results.robots.sitemap.files.length} files` : ''}`
+                            : 'Not found'}
                         </div>
                       </div>
                       <span className={`px-3 py-1 rounded-full text-sm font-semibold ${getStatusClass(results.robots.sitemap.found ? 'good' : 'warning')}`}>
                         {results.robots.sitemap.found ? 'Found' : 'Missing'}
                       </span>
                     </div>
+
+                    {results.robots.robotsTxt.access?.map((access) => (
+                      <div key={access.userAgent} className="flex justify-between items-center p-4 bg-gray-50 rounded-lg">
+                        <div>
+                          <div className="font-medium text-gray-800">{access.userAgent}</div>
+                          <div className="text-sm text-gray-600 mt-1">
+                            {access.allowed ? 'May crawl this page' : `Blocked by ${access.rule}`}
+                          </div>
+                        </div>
+                        <span className={`px-3 py-1 rounded-full text-sm font-semibold ${getStatusClass(access.allowed ? 'good' : 'error')}`}>
+                          {access.allowed ? 'Allowed' : 'Blocked'}
+                        </span>
+                      </div>
+                    ))}
                   </div>
+
+                  {/* robots.txt problems */}
+                  {((results.robots.robotsTxt.errors?.length || 0) + (results.robots.robotsTxt.unknownDirectives?.length || 0)) > 0 && (
+                    <div className="mt-6 space-y-2">
+                      <h4 className="font-semibold text-gray-800">robots.txt Issues</h4>
+                      {results.robots.robotsTxt.errors?.map((error, index) => (
+                        <div key={`error-${index}`} className="text-sm p-3 bg-red-50 rounded-lg text-red-700">
+                          Line {error.line}: {error.message}
+                        </div>
+                      ))}
+                      {results.robots.robotsTxt.unknownDirectives?.map((item, index) => (
+                        <div key={`unknown-${index}`} className="text-sm p-3 bg-yellow-50 rounded-lg text-yellow-800">
+                          Line {item.line}: unknown directive "{item.directive}"
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  {/* Sitemap problems */}
+                  {results.robots.sitemap.found && (
+                    (results.robots.sitemap.invalidEntries?.length || 0) +
+                    (results.robots.sitemap.otherHostUrls?.length || 0) +
+                    (results.robots.sitemap.sample?.failures.length || 0)
+                  ) > 0 && (
+                    <div className="mt-6 space-y-2">
+                      <h4 className="font-semibold text-gray-800">Sitemap Issues</h4>
+                      {results.robots.sitemap.invalidEntries?.map((entry, index) => (
+                        <div key={`invalid-${index}`} className="text-sm p-3 bg-red-50 rounded-lg">
+                          <div className="text-red-700 break-all">{entry.entry}</div>
+                          <div className="text-xs text-gray-600 mt-1">{entry.reason}</div>
+                        </div>
+                      ))}
+                      {results.robots.sitemap.otherHostUrls?.map((url) => (
+                        <div key={`host-${url}`} className="text-sm p-3 bg-yellow-50 rounded-lg">
+                          <div className="text-yellow-800 break-all">{url}</div>
+                          <div className="text-xs text-gray-600 mt-1">On a different host than its sitemap</div>
+                        </div>
+                      ))}
+                      {results.robots.sitemap.sample?.failures.map((failure) => (
+                        <div key={`sample-${failure.url}`} className="text-sm p-3 bg-yellow-50 rounded-lg">
+                          <div className="text-yellow-800 break-all">{failure.url}</div>
+                          <div className="text-xs text-gray-600 mt-1">
+                            {failure.statusCode ? `Returned HTTP ${failure.statusCode}` : failure.error || 'No response'}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  {/* Blocked links */}
+                  {results.robots.robotsTxt.blockedLinks && results.robots.robotsTxt.blockedLinks.length > 0 && (
+                    <div className="mt-6 space-y-2">
+                      <h4 className="font-semibold text-gray-800">Links Blocked by robots.txt</h4>
+                      {results.robots.robotsTxt.blockedLinks.map((link) => (
+                        <div key={link.url} className="text-sm p-3 bg-gray-50 rounded-lg">
+                          <div className="text-gray-800 break-all">{link.url}</div>
+                          <div className="text-xs text-gray-600 mt-1">Blocked for {link.userAgents.join(', ')}</div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
                 </CardContent>
               </CollapsibleContent>
             </Collapsible>
@@ -598,6 +915,132 @@ export default function ResultsDisplay({ results }: ResultsDisplayProps) {
             </Collapsible>
           </Card>
         )}
+
+        {/* Redirects */}
+        {results.redirects && (
+          <Card className="border-gray-200">
+            <Collapsible 
+              open={openSections.redirects} 
+              onOpenChange={() => toggleSection('redirects')}
+            >
+              <CollapsibleTrigger asChild>
+                <CardHeader className="section-header gradient-card cursor-pointer">
+                  <CardTitle className="flex items-center justify-between">
+                    <div className="flex items-center">
+                      <span className="mr-3 text-orange-600">↪️</span>
+                      Redirects
+                    </div>
+                    {openSections.redirects ? <ChevronDown className="h-5 w-5" /> : <ChevronRight className="h-5 w-5" />}
+                  </CardTitle>
+                  <p className="text-sm text-gray-600 mt-1">Redirect chains for the page and its links</p>
+                </CardHeader>
+              </CollapsibleTrigger>
+              <CollapsibleContent>
+                <CardContent className="pt-6">
+                  <div className="grid grid-cols-3 gap-4 mb-6">
+                    <div className="text-center p-4 bg-gray-50 rounded-lg">
+                      <div className="text-2xl font-bold text-orange-600">{results.redirects.summary.redirectedLinks}</div>
+                      <div className="text-sm text-gray-600">Redirected Links</div>
+                    </div>
+                    <div className="text-center p-4 bg-gray-50 rounded-lg">
+                      <div className="text-2xl font-bold text-yellow-600">{results.redirects.summary.longChains}</div>
+                      <div className="text-sm text-gray-600">Long Chains</div>
+                    </div>
+                    <div className="text-center p-4 bg-gray-50 rounded-lg">
+                      <div className="text-2xl font-bold text-red-600">
+                        {results.redirects.summary.loops + results.redirects.summary.httpsDowngrades}
+                      </div>
+                      <div className="text-sm text-gray-600">Loops & Downgrades</div>
+                    </div>
+                  </div>
+
+                  <div className="space-y-3">
+                    {[results.redirects.page, ...results.redirects.links].map((chain, index) => (
+                      <div key={index} className="p-4 bg-gray-50 rounded-lg">
+                        <div className="flex justify-between items-start">
+                          <div className="font-medium text-gray-800 break-all">
+                            {index === 0 ? 'Audited URL' : chain.url}
+                          </div>
+                          <span className={`px-3 py-1 rounded-full text-sm font-semibold ${getStatusClass(chain.status)} ml-4 whitespace-nowrap`}>
+                            {chain.hops.filter(hop => hop.location).length} redirects
+                          </span>
+                        </div>
+                        <ol className="mt-2 space-y-1 text-sm text-gray-600">
+                          {chain.hops.map((hop, hopIndex) => (
+                            <li key={hopIndex} className="break-all">
+                              <span className="font-mono font-semibold mr-2">{hop.statusCode}</span>
+                              {hop.url}
+                              {hop.location && <span className="text-gray-500"> → {hop.location}</span>}
+                            </li>
+                          ))}
+                        </ol>
+                        {chain.warnings.map((warning, warningIndex) => (
+                          <div key={warningIndex} className="text-sm text-yellow-700 mt-1">⚠ {warning}</div>
+                        ))}
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              </CollapsibleContent>
+            </Collapsible>
+          </Card>
+        )}
+
+        {/* Structured Data */}
+        {results.structuredData && (
+          <Card className="border-gray-200">
+            <Collapsible 
+              open={openSections.structuredData} 
+              onOpenChange={() => toggleSection('structuredData')}
+            >
+              <CollapsibleTrigger asChild>
+                <CardHeader className="section-header gradient-card cursor-pointer">
+                  <CardTitle className="flex items-center justify-between">
+                    <div className="flex items-center">
+                      <span className="mr-3 text-teal-600">🧩</span>
+                      Structured Data
+                    </div>
+                    {openSections.structuredData ? <ChevronDown className="h-5 w-5" /> : <ChevronRight className="h-5 w-5" />}
+                  </CardTitle>
+                  <p className="text-sm text-gray-600 mt-1">JSON-LD, Microdata & RDFa validation</p>
+                </CardHeader>
+              </CollapsibleTrigger>
+              <CollapsibleContent>
+                <CardContent className="pt-6">
+                  {results.structuredData.entities.length === 0 ? (
+                    <div className="p-4 bg-gray-50 rounded-lg text-sm text-gray-600">No structured data found on this page</div>
+                  ) : (
+                    <div className="space-y-4">
+                      {results.structuredData.entities.map((entity, index) => (
+                        <div key={index} className="p-4 bg-gray-50 rounded-lg">
+                          <div className="flex justify-between items-center mb-3">
+                            <div>
+                              <div className="font-medium text-gray-800">{entity.type}</div>
+                              <div className="text-xs text-gray-500 uppercase tracking-wide">{entity.format}</div>
+                            </div>
+                            <span className={`px-3 py-1 rounded-full text-sm font-semibold ${getStatusClass(entity.status)}`}>
+                              {entity.status}
+                            </span>
+                          </div>
+                          <div className="space-y-1">
+                            {entity.items.map((item, itemIndex) => (
+                              <div key={itemIndex} className="flex justify-between items-start text-sm">
+                                <span className="text-gray-600">{item.description}</span>
+                                <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${getStatusClass(item.status)} ml-4 whitespace-nowrap`}>
+                                  {item.name}
+                                </span>
+                              </div>
+                            ))}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </CollapsibleContent>
+            </Collapsible>
+          </Card>
+        )}
       </div>
 
       {/* Recommendations */}
@@ -628,31 +1071,33 @@ export default function ResultsDisplay({ results }: ResultsDisplayProps) {
       )}
 
       {/* Technical Implementation Summary */}
-      <div className="mt-12 p-6 bg-gradient-to-r from-blue-50 to-purple-50 rounded-2xl border border-blue-200">
-        <h3 className="text-xl font-semibold text-gray-800 mb-4">🔧 Full-Stack Implementation</h3>
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-          <div>
-            <h4 className="font-semibold text-gray-700 mb-3">Frontend (React)</h4>
-            <ul className="space-y-2 text-sm text-gray-600">
-              <li>• Component-based architecture</li>
-              <li>• Responsive design with Tailwind CSS</li>
-              <li>• Real-time loading states</li>
-              <li>• API data fetching with error handling</li>
-              <li>• Progressive disclosure for complex data</li>
-            </ul>
-          </div>
-          <div>
-            <h4 className="font-semibold text-gray-700 mb-3">Backend (Node.js + Express)</h4>
-            <ul className="space-y-2 text-sm text-gray-600">
-              <li>• RESTful API with 6 specialized endpoints</li>
-              <li>• Axios for HTTP requests</li>
-              <li>• Cheerio for HTML parsing</li>
-              <li>• Environment variable configuration</li>
-              <li>• In-memory processing (no database)</li>
-            </ul>
+      {!partial && (
+        <div className="mt-12 p-6 bg-gradient-to-r from-blue-50 to-purple-50 rounded-2xl border border-blue-200">
+          <h3 className="text-xl font-semibold text-gray-800 mb-4">🔧 Full-Stack Implementation</h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <h4 className="font-semibold text-gray-700 mb-3">Frontend (React)</h4>
+              <ul className="space-y-2 text-sm text-gray-600">
+                <li>• Component-based architecture</li>
+                <li>• Responsive design with Tailwind CSS</li>
+                <li>• Real-time loading states</li>
+                <li>• API data fetching with error handling</li>
+                <li>• Progressive disclosure for complex data</li>
+              </ul>
+            </div>
+            <div>
+              <h4 className="font-semibold text-gray-700 mb-3">Backend (Node.js + Express)</h4>
+              <ul className="space-y-2 text-sm text-gray-600">
+                <li>• RESTful API with 6 specialized endpoints</li>
+                <li>• Axios for HTTP requests</li>
+                <li>• Cheerio for HTML parsing</li>
+                <li>• Environment variable configuration</li>
+                <li>• In-memory processing (no database)</li>
+              </ul>
+            </div>
           </div>
         </div>
-      </div>
+      )}
     </div>
   );
 }
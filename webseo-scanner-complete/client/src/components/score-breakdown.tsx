@@ -0,0 +1,101 @@
+import type { ScoreBreakdown, ScoreCategory } from "@shared/schema";
+
+interface ScoreBreakdownPanelProps {
+  breakdown: ScoreBreakdown;
+  // "overall" explains how the category scores were combined
+  category: ScoreCategory | 'overall';
+}
+
+const CATEGORIES: ScoreCategory[] = ['technical', 'content', 'performance', 'mobile'];
+
+const formatLabel = (key: string) =>
+  key.replace(/([A-Z])/g, ' $1').replace(/^./, str => str.toUpperCase());
+
+// Drops trailing zeros: 3 rather than 3.00, 0.5 rather than 0.50
+const formatPoints = (points: number) => String(Math.round(points * 100) / 100);
+
+export default function ScoreBreakdownPanel({ breakdown, category }: ScoreBreakdownPanelProps) {
+  const getStatusClass = (status: string) => {
+    switch (status) {
+      case 'good':
+        return 'status-good';
+      case 'warning':
+        return 'status-warning';
+      case 'error':
+        return 'status-error';
+      default:
+        return 'bg-gray-100 text-gray-800';
+    }
+  };
+
+  if (category === 'overall') {
+    const scored = CATEGORIES.filter(key => breakdown[key].score !== null && breakdown[key].weight > 0);
+    const totalWeight = scored.reduce((total, key) => total + breakdown[key].weight, 0);
+
+    return (
+      <div className="p-6 bg-white border border-gray-200 rounded-2xl">
+        <h4 className="font-semibold text-gray-800 mb-1">Overall score</h4>
+        <p className="text-sm text-gray-600 mb-4">
+          Weighted average of the category scores (profile: {breakdown.profile}). Categories without any checks are left out.
+        </p>
+        <div className="grid grid-cols-[1fr_auto_auto_auto] gap-x-6 gap-y-2 items-center text-sm">
+          <span className="text-xs text-gray-500 uppercase tracking-wide">Category</span>
+          <span className="text-xs text-gray-500 uppercase tracking-wide text-right">Score</span>
+          <span className="text-xs text-gray-500 uppercase tracking-wide text-right">Weight</span>
+          <span className="text-xs text-gray-500 uppercase tracking-wide text-right">Share</span>
+          {CATEGORIES.map(key => {
+            const { score, weight } = breakdown[key];
+            const counted = score !== null && weight > 0;
+            return (
+              <div key={key} className={`contents ${counted ? '' : 'text-gray-400'}`}>
+                <span className="font-medium">{formatLabel(key)}</span>
+                <span className="text-right">{score ?? 'not scored'}</span>
+                <span className="text-right">{formatPoints(weight)}</span>
+                <span className="text-right">{counted ? `${Math.round(100 * weight / totalWeight)}%` : '–'}</span>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    );
+  }
+
+  const { checks, score } = breakdown[category];
+  const possible = checks.reduce((total, check) => total + check.weight, 0);
+  const earned = checks.reduce((total, check) => total + check.points, 0);
+
+  return (
+    <div className="p-6 bg-white border border-gray-200 rounded-2xl">
+      <h4 className="font-semibold text-gray-800 mb-1">{formatLabel(category)} score</h4>
+      <p className="text-sm text-gray-600 mb-4">
+        {score === null
+          ? 'No checks contributed to this category, so it is left out of the overall score.'
+          : `${formatPoints(earned)} of ${formatPoints(possible)} possible points (profile: ${breakdown.profile}).`}
+      </p>
+      {checks.length > 0 && (
+        <div className="grid grid-cols-[1fr_auto_auto_auto] gap-x-6 gap-y-2 items-center text-sm">
+          <span className="text-xs text-gray-500 uppercase tracking-wide">Check</span>
+          <span className="text-xs text-gray-500 uppercase tracking-wide text-center">Result</span>
+          <span className="text-xs text-gray-500 uppercase tracking-wide text-right">Weight</span>
+          <span className="text-xs text-gray-500 uppercase tracking-wide text-right">Points</span>
+          {checks.map(check => {
+            const lost = Math.round((check.weight - check.points) * 100) / 100;
+            return (
+              <div key={check.id} className="contents">
+                <span className="font-medium text-gray-800" title={check.id}>{check.label}</span>
+                <span className={`px-2 py-0.5 rounded-full text-xs font-semibold text-center ${getStatusClass(check.status)}`}>
+                  {check.value !== undefined ? `${check.value}/100` : check.status}
+                </span>
+                <span className="text-right text-gray-700">{formatPoints(check.weight)}</span>
+                <span className="text-right">
+                  <span className="text-green-700">+{formatPoints(check.points)}</span>
+                  {lost > 0 && <span className="text-red-600 ml-2">−{formatPoints(lost)}</span>}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,3 +1,5 @@
+import type { AuditDiff, AuditEvent, AuditJob, AuditProfile, AuditSchedule, BulkAudit, BulkAuditRequest, InsertAuditProfile, ScheduleFrequency, StoredAudit } from "@shared/schema";
+
 export const API_BASE = import.meta.env.VITE_API_BASE_URL || '';
 
 export interface ApiError {
@@ -31,12 +33,112 @@ export async function apiRequest<T = any>(
 }
 
 export const auditAPI = {
-  startAudit: (url: string) =>
-    apiRequest('/api/audit', {
+  startAudit: (url: string, profile?: string) =>
+    apiRequest<AuditJob>('/api/audit', {
+      method: 'POST',
+      body: JSON.stringify({ url, profile }),
+    }),
+
+  // Delivers the job's progress events until it completes or fails; returns a function that stops listening
+  streamAudit: (job: AuditJob, onEvent: (event: AuditEvent) => void) => {
+    const source = new EventSource(`${API_BASE}${job.eventsUrl}`);
+    const types: AuditEvent['type'][] = ['start', 'analyzer-start', 'analyzer-done', 'analyzer-failed', 'complete', 'failed'];
+
+    types.forEach(type => source.addEventListener(type, message => {
+      const event: AuditEvent = JSON.parse((message as MessageEvent).data);
+      if (event.type === 'complete' || event.type === 'failed') {
+        source.close();
+      }
+      onEvent(event);
+    }));
+
+    // Dropped connections are retried (and resumed) by EventSource itself; it only gives up on HTTP errors
+    source.onerror = () => {
+      if (source.readyState === EventSource.CLOSED) {
+        onEvent({ type: 'failed', error: 'Lost connection to the audit' });
+      }
+    };
+
+    return () => source.close();
+  },
+
+  startBulkAudit: (request: BulkAuditRequest) =>
+    apiRequest<BulkAudit>('/api/bulk-audits', {
       method: 'POST',
-      body: JSON.stringify({ url }),
+      body: JSON.stringify(request),
     }),
 
+  getBulkAudit: (id: string) =>
+    apiRequest<BulkAudit>(`/api/bulk-audits/${id}`),
+
+  // A plain link target, so the browser handles the download
+  getBulkAuditExportUrl: (id: string, format: 'csv' | 'json') =>
+    `${API_BASE}/api/bulk-audits/${id}/export?format=${format}`,
+
+  crawlSite: (url: string, options: { maxPages?: number; maxDepth?: number } = {}) =>
+    apiRequest('/api/crawl', {
+      method: 'POST',
+      body: JSON.stringify({ url, ...options }),
+    }),
+
+  getHistory: (query: { url?: string; domain?: string; limit?: number }) => {
+    const params = new URLSearchParams();
+    Object.entries(query).forEach(([key, value]) => {
+      if (value !== undefined) params.set(key, String(value));
+    });
+    return apiRequest<StoredAudit[]>(`/api/audits?${params}`);
+  },
+
+  getAudit: (id: number) =>
+    apiRequest<StoredAudit>(`/api/audits/${id}`),
+
+  getAuditExportUrl: (id: number, format: 'json' | 'csv' | 'junit' | 'sarif') =>
+    `${API_BASE}/api/audits/${id}/export?format=${format}`,
+
+  getDiff: (id: number, againstId?: number) =>
+    apiRequest<AuditDiff>(
+      `/api/audits/${id}/diff${againstId !== undefined ? `?against=${againstId}` : ''}`
+    ),
+
+  getSchedules: () =>
+    apiRequest<AuditSchedule[]>('/api/schedules'),
+
+  createSchedule: (schedule: { url: string; frequency: ScheduleFrequency; enabled?: boolean }) =>
+    apiRequest<AuditSchedule>('/api/schedules', {
+      method: 'POST',
+      body: JSON.stringify(schedule),
+    }),
+
+  updateSchedule: (id: number, changes: { url?: string; frequency?: ScheduleFrequency; enabled?: boolean }) =>
+    apiRequest<AuditSchedule>(`/api/schedules/${id}`, {
+      method: 'PATCH',
+      body: JSON.stringify(changes),
+    }),
+
+  deleteSchedule: (id: number) =>
+    apiRequest<{ id: number; deleted: boolean }>(`/api/schedules/${id}`, { method: 'DELETE' }),
+
+  runSchedule: (id: number) =>
+    apiRequest<AuditSchedule>(`/api/schedules/${id}/run`, { method: 'POST' }),
+
+  getProfiles: () =>
+    apiRequest<AuditProfile[]>('/api/profiles'),
+
+  createProfile: (profile: InsertAuditProfile) =>
+    apiRequest<AuditProfile>('/api/profiles', {
+      method: 'POST',
+      body: JSON.stringify(profile),
+    }),
+
+  updateProfile: (id: number, changes: Partial<InsertAuditProfile>) =>
+    apiRequest<AuditProfile>(`/api/profiles/${id}`, {
+      method: 'PATCH',
+      body: JSON.stringify(changes),
+    }),
+
+  deleteProfile: (id: number) =>
+    apiRequest<{ id: number; deleted: boolean }>(`/api/profiles/${id}`, { method: 'DELETE' }),
+
   getSpeed: (url: string) =>
     apiRequest(`/api/speed?url=${encodeURIComponent(url)}`),
 
@@ -0,0 +1,252 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { ArrowDown, ArrowLeft, ArrowUp, Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { auditAPI } from "@/lib/api";
+import type { BulkAuditItem } from "@shared/schema";
+
+type SortKey = 'url' | 'status' | 'overall' | 'technical' | 'content' | 'performance' | 'mobile' | 'recommendation';
+
+const COLUMNS: { key: SortKey; label: string }[] = [
+  { key: 'url', label: 'URL' },
+  { key: 'status', label: 'Status' },
+  { key: 'overall', label: 'Overall' },
+  { key: 'technical', label: 'Technical' },
+  { key: 'content', label: 'Content' },
+  { key: 'performance', label: 'Performance' },
+  { key: 'mobile', label: 'Mobile' },
+  { key: 'recommendation', label: 'Top Recommendation' },
+];
+
+const PRIORITY_RANK = { high: 0, medium: 1, low: 2 };
+
+// Rows without a value (still running or failed) sort after the rest in either direction
+function sortValue(item: BulkAuditItem, key: SortKey): string | number | undefined {
+  switch (key) {
+    case 'url':
+    case 'status':
+      return item[key];
+    case 'recommendation':
+      return item.topRecommendation && PRIORITY_RANK[item.topRecommendation.priority];
+    default:
+      return item.scores?.[key];
+  }
+}
+
+export default function Bulk() {
+  const [urlList, setUrlList] = useState("");
+  const [bulkId, setBulkId] = useState<string | null>(null);
+  const [isStarting, setIsStarting] = useState(false);
+  const [sort, setSort] = useState<{ key: SortKey; descending: boolean }>({ key: 'overall', descending: false });
+  const { toast } = useToast();
+
+  const { data: bulk } = useQuery({
+    queryKey: ['/api/bulk-audits', bulkId],
+    queryFn: () => auditAPI.getBulkAudit(bulkId!),
+    enabled: !!bulkId,
+    // Poll until every URL has finished
+    refetchInterval: (query) => query.state.data?.status === 'complete' ? false : 2000,
+  });
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      setUrlList(await file.text());
+    }
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsStarting(true);
+
+    try {
+      const started = await auditAPI.startBulkAudit({ csv: urlList });
+      setBulkId(started.id);
+    } catch (error: any) {
+      toast({
+        title: "Bulk Audit Failed",
+        description: error.message || "The URL list could not be queued",
+        variant: "destructive",
+      });
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  const toggleSort = (key: SortKey) => {
+    setSort(current => ({ key, descending: current.key === key ? !current.descending : false }));
+  };
+
+  const items = (bulk?.items || []).slice().sort((a, b) => {
+    const left = sortValue(a, sort.key);
+    const right = sortValue(b, sort.key);
+    if (left === undefined || right === undefined) {
+      return left === right ? 0 : left === undefined ? 1 : -1;
+    }
+    const order = typeof left === 'number' && typeof right === 'number'
+      ? left - right
+      : String(left).localeCompare(String(right));
+    return sort.descending ? -order : order;
+  });
+
+  const finished = bulk?.items.filter(item => item.status === 'complete' || item.status === 'failed').length || 0;
+  const isRunning = isStarting || bulk?.status === 'running';
+
+  const getScoreColor = (score: number) => {
+    if (score >= 90) return 'text-green-600';
+    if (score >= 70) return 'text-yellow-600';
+    return 'text-red-600';
+  };
+
+  const getStatusClass = (status: BulkAuditItem['status']) => {
+    switch (status) {
+      case 'complete':
+        return 'status-good';
+      case 'failed':
+        return 'status-error';
+      case 'running':
+        return 'status-warning';
+      default:
+        return 'bg-gray-100 text-gray-800';
+    }
+  };
+
+  return (
+    <div className="min-h-screen">
+      <header className="text-center text-white py-16 px-4">
+        <div className="max-w-4xl mx-auto">
+          <h1 className="text-4xl md:text-5xl font-bold mb-6 drop-shadow-lg">
+            Bulk Audit
+          </h1>
+          <h2 className="text-xl md:text-2xl opacity-90 max-w-2xl mx-auto leading-relaxed">
+            Audit a whole list of landing pages at once
+          </h2>
+        </div>
+      </header>
+
+      <div className="max-w-7xl mx-auto px-4 pb-16">
+        <div className="glass-strong rounded-3xl p-8 md:p-12 shadow-2xl mb-12">
+          <div className="flex justify-between items-center mb-8">
+            <h2 className="text-3xl font-bold text-gray-800">
+              📋 URL List
+            </h2>
+            <Link href="/">
+              <Button variant="outline" className="flex items-center gap-2 rounded-xl">
+                <ArrowLeft className="h-4 w-4" />
+                Single Audit
+              </Button>
+            </Link>
+          </div>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <Textarea
+              value={urlList}
+              onChange={(e) => setUrlList(e.target.value)}
+              placeholder={"One URL or domain per line, or a CSV with a url column\nhttps://example.com/pricing\nexample.org"}
+              className="min-h-[160px] font-mono text-sm bg-gray-50 border-2 border-gray-200 rounded-xl"
+              disabled={isRunning}
+            />
+            <div className="flex flex-col md:flex-row gap-4 items-center justify-between">
+              <Input
+                type="file"
+                accept=".csv,.txt,text/csv,text/plain"
+                onChange={handleFile}
+                className="md:w-80 bg-gray-50"
+                disabled={isRunning}
+                aria-label="Upload a CSV of URLs"
+              />
+              <Button
+                type="submit"
+                disabled={isRunning || !urlList.trim()}
+                className="px-8 py-4 gradient-primary text-white font-semibold rounded-xl text-lg btn-hover disabled:opacity-70 disabled:cursor-not-allowed disabled:transform-none whitespace-nowrap"
+              >
+                {isRunning ? (
+                  <>
+                    <div className="spinner mr-2"></div>
+                    {bulk ? `Audited ${finished} of ${bulk.items.length}...` : 'Queuing...'}
+                  </>
+                ) : (
+                  <>
+                    🔍 Audit All
+                  </>
+                )}
+              </Button>
+            </div>
+          </form>
+        </div>
+
+        {bulk && (
+          <div className="glass-strong rounded-3xl p-8 md:p-12 shadow-2xl mb-12">
+            <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4 mb-6">
+              <div>
+                <h2 className="text-3xl font-bold text-gray-800">📊 Results</h2>
+                <p className="text-sm text-gray-600 mt-1">
+                  {finished} of {bulk.items.length} URLs audited
+                  {bulk.profile && ` with the ${bulk.profile} profile`}
+                </p>
+              </div>
+              {bulk.status === 'complete' && (
+                <div className="flex gap-3">
+                  {(['csv', 'json'] as const).map(format => (
+                    <a key={format} href={auditAPI.getBulkAuditExportUrl(bulk.id, format)} download>
+                      <Button variant="outline" className="flex items-center gap-2 rounded-xl">
+                        <Download className="h-4 w-4" />
+                        {format.toUpperCase()}
+                      </Button>
+                    </a>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  {COLUMNS.map(column => (
+                    <TableHead key={column.key}>
+                      <button
+                        type="button"
+                        onClick={() => toggleSort(column.key)}
+                        className="flex items-center gap-1 font-semibold text-gray-700 hover:text-gray-900"
+                      >
+                        {column.label}
+                        {sort.key === column.key && (sort.descending
+                          ? <ArrowDown className="h-3 w-3" />
+                          : <ArrowUp className="h-3 w-3" />)}
+                      </button>
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {items.map(item => (
+                  <TableRow key={item.url}>
+                    <TableCell className="max-w-xs truncate font-medium" title={item.url}>{item.url}</TableCell>
+                    <TableCell>
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${getStatusClass(item.status)}`} title={item.error}>
+                        {item.status}
+                      </span>
+                    </TableCell>
+                    {(['overall', 'technical', 'content', 'performance', 'mobile'] as const).map(key => (
+                      <TableCell key={key} className={`font-semibold ${item.scores ? getScoreColor(item.scores[key]) : 'text-gray-400'}`}>
+                        {item.scores ? item.scores[key] : '–'}
+                      </TableCell>
+                    ))}
+                    <TableCell className="max-w-sm text-gray-700">
+                      {item.error || item.topRecommendation?.title || '–'}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link, useParams } from "wouter";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { ArrowLeft } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { auditAPI } from "@/lib/api";
+
+const chartConfig = {
+  overall: { label: "Overall", color: "#667eea" },
+  technical: { label: "Technical", color: "#0ea5e9" },
+  content: { label: "Content", color: "#a855f7" },
+  performance: { label: "Performance", color: "#22c55e" },
+  mobile: { label: "Mobile", color: "#f97316" },
+} satisfies ChartConfig;
+
+const formatDate = (timestamp: string) =>
+  new Date(timestamp).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+const formatDateTime = (timestamp: string) =>
+  new Date(timestamp).toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+
+export default function History() {
+  const { domain = "" } = useParams<{ domain: string }>();
+
+  const { data: audits, isLoading, error } = useQuery({
+    queryKey: ['/api/audits', domain],
+    queryFn: () => auditAPI.getHistory({ domain, limit: 200 }),
+    enabled: !!domain,
+  });
+
+  // The API returns newest first; the chart reads left to right in time
+  const chartData = (audits || [])
+    .slice()
+    .reverse()
+    .map(audit => ({ timestamp: audit.timestamp, ...audit.scores }));
+
+  return (
+    <div className="min-h-screen">
+      <header className="text-center text-white py-16 px-4">
+        <div className="max-w-4xl mx-auto">
+          <h1 className="text-4xl md:text-5xl font-bold mb-6 drop-shadow-lg">
+            Audit History
+          </h1>
+          <h2 className="text-xl md:text-2xl opacity-90 max-w-2xl mx-auto leading-relaxed">
+            {domain}
+          </h2>
+        </div>
+      </header>
+
+      <div className="max-w-7xl mx-auto px-4 pb-16">
+        <div className="glass-strong rounded-3xl p-8 md:p-12 shadow-2xl mb-12">
+          <div className="flex justify-between items-center mb-8">
+            <h2 className="text-3xl font-bold text-gray-800">
+              📉 Score Trends
+            </h2>
+            <Link href="/">
+              <Button variant="outline" className="flex items-center gap-2 rounded-xl">
+                <ArrowLeft className="h-4 w-4" />
+                New Audit
+              </Button>
+            </Link>
+          </div>
+
+          {isLoading && (
+            <div className="text-center py-12">
+              <div className="spinner mx-auto mb-6"></div>
+              <p className="text-gray-600">Loading audit history...</p>
+            </div>
+          )}
+
+          {error && (
+            <div className="p-4 bg-red-50 border border-red-200 rounded-xl text-red-700">
+              ⚠️ {(error as Error).message}
+            </div>
+          )}
+
+          {audits && audits.length === 0 && (
+            <div className="text-center py-12 text-gray-600">
+              No audits recorded for {domain} yet.
+            </div>
+          )}
+
+          {audits && audits.length > 0 && (
+            <>
+              {audits.length < 2 && (
+                <p className="text-sm text-gray-600 mb-4">
+                  Only one audit recorded so far. Run another audit to see how scores move over time.
+                </p>
+              )}
+
+              <ChartContainer config={chartConfig} className="h-[360px] w-full">
+                <LineChart data={chartData} margin={{ left: 12, right: 12 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis
+                    dataKey="timestamp"
+                    tickLine={false}
+                    axisLine={false}
+                    tickMargin={8}
+                    tickFormatter={formatDate}
+                  />
+                  <YAxis domain={[0, 100]} tickLine={false} axisLine={false} width={32} />
+                  <ChartTooltip
+                    content={<ChartTooltipContent labelFormatter={(_, payload) => formatDateTime(payload[0]?.payload.timestamp)} />}
+                  />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  {Object.keys(chartConfig).map(key => (
+                    <Line
+                      key={key}
+                      dataKey={key}
+                      type="monotone"
+                      stroke={`var(--color-${key})`}
+                      strokeWidth={key === 'overall' ? 3 : 2}
+                      dot={chartData.length < 30}
+                    />
+                  ))}
+                </LineChart>
+              </ChartContainer>
+
+              {/* Audit Runs */}
+              <div className="mt-10 space-y-3">
+                <h3 className="text-xl font-semibold text-gray-800 mb-4">Audit Runs</h3>
+                {audits.map(audit => (
+                  <div key={audit.id} className="flex justify-between items-center p-4 bg-gray-50 rounded-lg">
+                    <div>
+                      <div className="font-medium text-gray-800">{formatDateTime(audit.timestamp)}</div>
+                      <div className="text-sm text-gray-600 mt-1 truncate">{audit.url}</div>
+                    </div>
+                    <div className="flex gap-3 text-sm text-gray-600">
+                      {Object.entries(audit.scores).map(([key, score]) => (
+                        <span key={key} className="hidden md:inline">
+                          {chartConfig[key as keyof typeof chartConfig]?.label}: <strong>{score}</strong>
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
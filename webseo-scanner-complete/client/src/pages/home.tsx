@@ -1,50 +1,73 @@
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import AuditForm from "@/components/audit-form";
-import LoadingSpinner from "@/components/loading-spinner";
+import AuditProgress from "@/components/audit-progress";
 import ResultsDisplay from "@/components/results-display";
+import AuditComparison from "@/components/audit-comparison";
 import FeatureGrid from "@/components/feature-grid";
 import { useToast } from "@/hooks/use-toast";
-import type { AuditResult } from "@shared/schema";
+import { auditAPI } from "@/lib/api";
+import type { AuditDiff, AuditEvent, AuditResult, StoredAudit } from "@shared/schema";
 
 export default function Home() {
   const [isLoading, setIsLoading] = useState(false);
+  const [progress, setProgress] = useState<AuditEvent[]>([]);
   const [auditResults, setAuditResults] = useState<AuditResult | null>(null);
+  const [comparison, setComparison] = useState<AuditDiff | null>(null);
+  const stopStreaming = useRef<(() => void) | undefined>();
   const { toast } = useToast();
 
-  const handleAudit = async (url: string) => {
+  // Stop listening to a running audit when leaving the page
+  useEffect(() => () => stopStreaming.current?.(), []);
+
+  const showResults = (data: AuditResult | StoredAudit) => {
+    setAuditResults(data);
+
+    // Compare against the previous run of the same URL, if there is one
+    if ('id' in data) {
+      auditAPI.getDiff(data.id)
+        .then(setComparison)
+        .catch(() => setComparison(null));
+    }
+
+    toast({
+      title: "Audit Complete",
+      description: "Your SEO audit has been completed successfully.",
+    });
+  };
+
+  const showError = (error: any) => {
+    console.error('Audit error:', error);
+    toast({
+      title: "Audit Failed",
+      description: error.message || "An error occurred during the audit",
+      variant: "destructive",
+    });
+  };
+
+  const handleAudit = async (url: string, profile?: string) => {
+    stopStreaming.current?.();
     setIsLoading(true);
+    setProgress([]);
     setAuditResults(null);
+    setComparison(null);
 
     try {
-      const response = await fetch('/api/audit', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ url }),
-      });
+      const job = await auditAPI.startAudit(url, profile);
 
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.error || `HTTP ${response.status}`);
-      }
+      stopStreaming.current = auditAPI.streamAudit(job, event => {
+        setProgress(events => [...events, event]);
 
-      const data = await response.json();
-      setAuditResults(data);
-      
-      toast({
-        title: "Audit Complete",
-        description: "Your SEO audit has been completed successfully.",
+        if (event.type === 'complete') {
+          showResults(event.audit);
+          setIsLoading(false);
+        } else if (event.type === 'failed') {
+          showError(new Error(event.error));
+          setIsLoading(false);
+        }
       });
 
     } catch (error: any) {
-      console.error('Audit error:', error);
-      toast({
-        title: "Audit Failed", 
-        description: error.message || "An error occurred during the audit",
-        variant: "destructive",
-      });
-    } finally {
+      showError(error);
       setIsLoading(false);
     }
   };
@@ -96,11 +119,18 @@ export default function Home() {
         {/* Features Grid */}
         <FeatureGrid />
 
-        {/* Loading Spinner */}
-        {isLoading && <LoadingSpinner />}
+        {/* Per-analyzer progress of the running audit */}
+        {isLoading && <AuditProgress events={progress} />}
 
         {/* Results */}
-        {auditResults && <ResultsDisplay results={auditResults} />}
+        {auditResults && (
+          <div className={comparison ? "grid xl:grid-cols-3 gap-8 items-start" : ""}>
+            <div className="xl:col-span-2">
+              <ResultsDisplay results={auditResults} />
+            </div>
+            {comparison && <AuditComparison diff={comparison} />}
+          </div>
+        )}
 
         {/* SEO Content Section */}
         <section className="glass-strong rounded-2xl p-8 mt-8">
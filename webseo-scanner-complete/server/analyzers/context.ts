@@ -0,0 +1,92 @@
+import * as cheerio from "cheerio";
+import { auditSettingsSchema, type AuditSettings } from "@shared/schema";
+import { followRedirects } from "../http";
+import type { AnalyzerContext, PageFetch } from "./types";
+import { extractLinks, dedupeLinks } from "./links";
+import { checkLinksStatus } from "./link-checker";
+
+// Fetches and parses a document, recording where redirects ended up and how long it took
+export async function fetchPage(url: string): Promise<PageFetch> {
+  const started = Date.now();
+
+  const { response, hops, loop, exceeded } = await followRedirects({
+    url,
+    method: 'GET',
+    headers: {
+      'User-Agent': 'Mozilla/5.0 (compatible; SEO-Audit-Bot/1.0)',
+      'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8'
+    },
+    timeout: 15000,
+    maxContentLength: 10 * 1024 * 1024,
+    responseType: 'text'
+  });
+
+  const html = typeof response.data === 'string' ? response.data : String(response.data ?? '');
+  const headers: Record<string, string> = {};
+  Object.entries(response.headers).forEach(([name, value]) => {
+    if (value !== undefined && value !== null) {
+      headers[name.toLowerCase()] = Array.isArray(value) ? value.join(', ') : String(value);
+    }
+  });
+
+  return {
+    requestedUrl: url,
+    finalUrl: hops[hops.length - 1].url,
+    status: response.status,
+    redirects: { hops, loop, exceeded },
+    headers,
+    html,
+    $: cheerio.load(html),
+    timing: {
+      startedAt: new Date(started).toISOString(),
+      durationMs: Date.now() - started
+    }
+  };
+}
+
+export const DEFAULT_AUDIT_SETTINGS: AuditSettings = auditSettingsSchema.parse({});
+
+// Analyzers that need the document only ever trigger one request per audit
+export function createAnalyzerContext(url: string, settings: AuditSettings = DEFAULT_AUDIT_SETTINGS): AnalyzerContext {
+  let pendingPage: Promise<PageFetch> | undefined;
+  let pendingLinks: Promise<any[]> | undefined;
+
+  const page = () => {
+    if (!pendingPage) {
+      pendingPage = fetchPage(url);
+    }
+    return pendingPage;
+  };
+
+  const checkedLinks = () => {
+    if (!pendingLinks) {
+      pendingLinks = page().then(fetched => {
+        assertHtmlPage(fetched);
+        const { internal, external } = extractLinks(fetched.$, new URL(fetched.finalUrl));
+        // Internal and external links share one pool
+        return checkLinksStatus([...dedupeLinks(internal), ...dedupeLinks(external)]);
+      });
+    }
+    return pendingLinks;
+  };
+
+  return { url, settings, page, checkedLinks };
+}
+
+// Content analyzers have nothing to inspect on error pages or non-HTML responses
+export function assertHtmlPage(page: PageFetch): void {
+  if (page.redirects.loop) {
+    throw new Error('Redirect loop detected');
+  }
+  if (page.redirects.exceeded) {
+    throw new Error('Too many redirects');
+  }
+  if (page.status >= 400) {
+    throw new Error(`Request failed with status code ${page.status}`);
+  }
+
+  const contentType = page.headers['content-type'] || '';
+  if (contentType && !contentType.includes('html')) {
+    throw new Error(`Expected an HTML page but received ${contentType}`);
+  }
+}
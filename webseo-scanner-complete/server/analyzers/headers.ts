@@ -0,0 +1,163 @@
+import type { HeadersResult } from "@shared/schema";
+import type { Analyzer, PageFetch } from "./types";
+import { DEFAULT_AUDIT_SETTINGS } from "./context";
+
+interface SecurityHeaderDefinition {
+  name: string;
+  header: string;
+  description: string;
+  required: boolean;
+  expected?: string | string[];
+}
+
+// Headers with a known description and expected value; profiles can require any other header by name
+const SECURITY_HEADERS: SecurityHeaderDefinition[] = [
+  {
+    name: 'Strict-Transport-Security',
+    header: 'strict-transport-security',
+    description: 'Enforces HTTPS connections',
+    required: true
+  },
+  {
+    name: 'X-Content-Type-Options',
+    header: 'x-content-type-options',
+    description: 'Prevents MIME type sniffing',
+    required: true,
+    expected: 'nosniff'
+  },
+  {
+    name: 'X-Frame-Options',
+    header: 'x-frame-options',
+    description: 'Prevents clickjacking attacks',
+    required: true,
+    expected: ['DENY', 'SAMEORIGIN']
+  },
+  {
+    name: 'Content-Security-Policy',
+    header: 'content-security-policy',
+    description: 'Prevents XSS and data injection',
+    required: true
+  },
+  {
+    name: 'Referrer-Policy',
+    header: 'referrer-policy',
+    description: 'Controls how much referrer information is sent',
+    required: true
+  },
+  {
+    name: 'Permissions-Policy',
+    header: 'permissions-policy',
+    description: 'Restricts browser features such as camera and geolocation',
+    required: true
+  }
+];
+
+export const headersAnalyzer: Analyzer<HeadersResult> = {
+  id: "headers",
+  name: "Headers analysis",
+  description: "HTTP headers analysis",
+  category: "technical",
+  run: async ({ page, settings }) => analyzeHeaders(await page(), settings.securityHeaders),
+
+  checks(result) {
+    return result.security.map(header => ({ label: header.name, category: 'technical', status: header.status }));
+  },
+
+  recommend(result) {
+    return result.security
+      .filter(header => header.status === 'warning' || header.status === 'error')
+      .map(header => ({
+        title: `Add ${header.name} header`,
+        description: header.description,
+        priority: 'medium',
+        category: 'security'
+      }));
+  }
+};
+
+// Headers analysis
+export function analyzeHeaders(
+  page: PageFetch,
+  securityHeaders: string[] = DEFAULT_AUDIT_SETTINGS.securityHeaders
+): HeadersResult {
+  try {
+    const security = analyzeSecurityHeaders(page.headers, securityHeaders);
+    const caching = analyzeCachingHeaders(page.headers);
+
+    return { security, caching };
+
+  } catch (error: any) {
+    throw new Error(`Headers analysis failed: ${error.message}`);
+  }
+}
+
+export function analyzeSecurityHeaders(
+  headers: Record<string, any>,
+  names: string[] = DEFAULT_AUDIT_SETTINGS.securityHeaders
+): any[] {
+  const securityHeaders = names.map((name): SecurityHeaderDefinition =>
+    SECURITY_HEADERS.find(definition => definition.header === name.toLowerCase()) || {
+      name,
+      header: name.toLowerCase(),
+      description: `${name} header`,
+      required: true
+    }
+  );
+
+  return securityHeaders.map(headerDef => {
+    const value = headers[headerDef.header] || headers[headerDef.header.toLowerCase()];
+    let status: 'good' | 'warning' | 'error' = 'good';
+    let description = headerDef.description;
+
+    if (!value) {
+      status = headerDef.required ? 'error' : 'warning';
+      description = `Missing ${headerDef.name} header`;
+    } else {
+      if (headerDef.expected) {
+        const expectedValues = Array.isArray(headerDef.expected) ? headerDef.expected : [headerDef.expected];
+        const hasExpectedValue = expectedValues.some(expected => 
+          value.toLowerCase().includes(expected.toLowerCase())
+        );
+        
+        if (!hasExpectedValue) {
+          status = 'warning';
+          description = `${headerDef.name}: ${value} (consider: ${expectedValues.join(' or ')})`;
+        } else {
+          description = `${headerDef.name}: ${value}`;
+        }
+      } else {
+        description = `${headerDef.name}: ${value}`;
+      }
+    }
+
+    return {
+      name: headerDef.name,
+      status,
+      description,
+      value: value || undefined
+    };
+  });
+}
+
+export function analyzeCachingHeaders(headers: Record<string, any>): any[] {
+  const cachingAnalysis = [];
+
+  const cacheControl = headers['cache-control'];
+  if (cacheControl) {
+    cachingAnalysis.push({
+      name: 'Cache-Control',
+      status: 'good' as const,
+      description: `Cache-Control: ${cacheControl}`,
+      value: cacheControl
+    });
+  } else {
+    cachingAnalysis.push({
+      name: 'Cache-Control',
+      status: 'warning' as const,
+      description: 'Missing Cache-Control header',
+      value: undefined
+    });
+  }
+
+  return cachingAnalysis;
+}
@@ -0,0 +1,21 @@
+import { registerAnalyzer } from "./registry";
+import { speedAnalyzer } from "./speed";
+import { metaAnalyzer } from "./meta";
+import { linksAnalyzer } from "./links";
+import { robotsAnalyzer } from "./robots";
+import { headersAnalyzer } from "./headers";
+import { redirectsAnalyzer } from "./redirects";
+import { structuredDataAnalyzer } from "./structured-data";
+
+// Built-in analyzers; new checks only need a module and a line here
+registerAnalyzer(speedAnalyzer);
+registerAnalyzer(metaAnalyzer);
+registerAnalyzer(linksAnalyzer);
+registerAnalyzer(robotsAnalyzer);
+registerAnalyzer(headersAnalyzer);
+registerAnalyzer(redirectsAnalyzer);
+registerAnalyzer(structuredDataAnalyzer);
+
+export { registerAnalyzer, getAnalyzer, getAnalyzers, assertKnownAnalyzers } from "./registry";
+export { createAnalyzerContext, fetchPage, DEFAULT_AUDIT_SETTINGS } from "./context";
+export type { Analyzer, AnalyzerContext, CheckOutcome, PageFetch, ScoreCategory } from "./types";
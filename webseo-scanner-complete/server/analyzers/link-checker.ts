@@ -0,0 +1,120 @@
+import type { RedirectHop } from "@shared/schema";
+import { followRedirects } from "../http";
+import { runPool } from "../pool";
+
+export interface LinkCheckOptions {
+  // Requests in flight across all hosts
+  concurrency: number;
+  // Minimum gap between two requests to the same host
+  perHostIntervalMs: number;
+  timeout: number;
+}
+
+export const DEFAULT_LINK_CHECK_OPTIONS: LinkCheckOptions = {
+  concurrency: 8,
+  perHostIntervalMs: 100,
+  timeout: 10000
+};
+
+export interface LinkCheck {
+  status: 'working' | 'broken';
+  statusCode: number | null;
+  method: 'HEAD' | 'GET';
+  redirects: RedirectHop[];
+  redirectLoop?: boolean;
+  tooManyRedirects?: boolean;
+  error?: string;
+}
+
+// Spaces out requests to the same host so large pages don't hammer a single server
+class HostRateLimiter {
+  private nextSlot = new Map<string, number>();
+
+  constructor(private intervalMs: number) {}
+
+  async wait(host: string): Promise<void> {
+    const now = Date.now();
+    const slot = Math.max(now, this.nextSlot.get(host) || 0);
+    this.nextSlot.set(host, slot + this.intervalMs);
+
+    if (slot > now) {
+      await new Promise(resolve => setTimeout(resolve, slot - now));
+    }
+  }
+}
+
+// Checks every link, requesting each distinct URL only once
+export async function checkLinksStatus(links: any[], options: LinkCheckOptions = DEFAULT_LINK_CHECK_OPTIONS): Promise<any[]> {
+  const urls = Array.from(new Set(links.map(link => link.fullUrl || link.href)));
+  const checks = await runPool(urls, options.concurrency, createChecker(options));
+
+  const byUrl = new Map(urls.map((url, index) => [url, checks[index]]));
+  return links.map(link => ({ ...link, ...byUrl.get(link.fullUrl || link.href)! }));
+}
+
+function createChecker(options: LinkCheckOptions): (url: string) => Promise<LinkCheck> {
+  const limiter = new HostRateLimiter(options.perHostIntervalMs);
+
+  const request = async (method: 'HEAD' | 'GET', url: string) => {
+    const trace = await followRedirects({
+      method,
+      url,
+      headers: {
+        'User-Agent': 'Mozilla/5.0 (compatible; SEO-Audit-Bot/1.0)'
+      },
+      timeout: options.timeout,
+      // Only the status matters; don't download bodies
+      responseType: 'stream'
+    }, {
+      // Every hop counts against its host's rate limit
+      beforeRequest: (hopUrl) => limiter.wait(hostOf(hopUrl))
+    });
+
+    trace.response.data?.destroy?.();
+    return trace;
+  };
+
+  return async (url: string): Promise<LinkCheck> => {
+    let headError: string | undefined;
+
+    try {
+      const trace = await request('HEAD', url);
+      const statusCode = trace.response.status;
+      if (statusCode < 400 && !trace.loop && !trace.exceeded) {
+        return { status: 'working', statusCode, method: 'HEAD', redirects: trace.hops };
+      }
+    } catch (error: any) {
+      headError = error.message;
+    }
+
+    // Plenty of servers reject or mishandle HEAD; confirm with a GET before reporting
+    try {
+      const trace = await request('GET', url);
+      const statusCode = trace.response.status;
+
+      if (trace.loop || trace.exceeded) {
+        return {
+          status: 'broken',
+          statusCode,
+          method: 'GET',
+          redirects: trace.hops,
+          redirectLoop: trace.loop,
+          tooManyRedirects: trace.exceeded,
+          error: trace.loop ? 'Redirect loop' : 'Too many redirects'
+        };
+      }
+
+      return { status: statusCode >= 400 ? 'broken' : 'working', statusCode, method: 'GET', redirects: trace.hops };
+    } catch (error: any) {
+      return { status: 'broken', statusCode: null, method: 'GET', redirects: [], error: error.message || headError };
+    }
+  };
+}
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch (error) {
+    return url;
+  }
+}
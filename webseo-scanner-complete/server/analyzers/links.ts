@@ -0,0 +1,135 @@
+import * as cheerio from "cheerio";
+import { URL } from "url";
+import type { LinksResult, Recommendation } from "@shared/schema";
+import type { Analyzer } from "./types";
+
+export const linksAnalyzer: Analyzer<LinksResult> = {
+  id: "links",
+  name: "Links analysis",
+  description: "Links validation analysis",
+  category: "technical",
+  run: async ({ checkedLinks }) => analyzeLinks(await checkedLinks()),
+
+  recommend(result) {
+    const recommendations: Recommendation[] = [];
+    if (result.internal.broken > 0) {
+      recommendations.push({
+        title: 'Fix broken internal links',
+        description: `${result.internal.broken} broken internal links detected`,
+        priority: 'high',
+        category: 'links'
+      });
+    }
+    if (result.external.broken > 0) {
+      recommendations.push({
+        title: 'Fix broken external links',
+        description: `${result.external.broken} broken external links detected`,
+        priority: 'high',
+        category: 'links'
+      });
+    }
+    return recommendations;
+  }
+};
+
+// Links analysis
+export function analyzeLinks(checked: any[]): LinksResult {
+  try {
+    const checkedInternal = checked.filter(l => l.type === 'internal');
+    const checkedExternal = checked.filter(l => l.type === 'external');
+
+    return {
+      internal: {
+        links: checkedInternal,
+        working: checkedInternal.filter(l => l.status === 'working').length,
+        broken: checkedInternal.filter(l => l.status === 'broken').length,
+        total: checkedInternal.reduce((acc, l) => acc + l.occurrences, 0),
+        status: checkedInternal.some(l => l.status === 'broken') ? 'warning' : 'good'
+      },
+      external: {
+        links: checkedExternal,
+        working: checkedExternal.filter(l => l.status === 'working').length,
+        broken: checkedExternal.filter(l => l.status === 'broken').length,
+        total: checkedExternal.reduce((acc, l) => acc + l.occurrences, 0),
+        status: checkedExternal.some(l => l.status === 'broken') ? 'warning' : 'good'
+      },
+      brokenLinks: checked
+        .filter(l => l.status === 'broken')
+        .map(l => ({
+          url: l.fullUrl,
+          text: l.text,
+          type: l.type,
+          statusCode: l.statusCode,
+          occurrences: l.occurrences,
+          ...(l.error && { error: l.error })
+        }))
+    };
+
+  } catch (error: any) {
+    throw new Error(`Links analysis failed: ${error.message}`);
+  }
+}
+
+// Collects anchors from a parsed document and splits them into internal and external links
+export function extractLinks($: cheerio.CheerioAPI, baseUrl: URL): { internal: any[]; external: any[] } {
+  const allLinks: any[] = [];
+
+  $('a[href]').each((i, el) => {
+    const href = $(el).attr('href');
+    const text = $(el).text().trim();
+    
+    if (href) {
+      allLinks.push({ href, text });
+    }
+  });
+
+  // Categorize links
+  const internal: any[] = [];
+  const external: any[] = [];
+
+  allLinks.forEach(link => {
+    const href = link.href.trim();
+    
+    if (!href || href === '#' || href.startsWith('javascript:') || href.startsWith('mailto:') || href.startsWith('tel:')) {
+      return;
+    }
+
+    try {
+      let fullUrl;
+      if (href.startsWith('//')) {
+        fullUrl = new URL(baseUrl.protocol + href);
+      } else if (href.startsWith('/') || !href.includes('://')) {
+        fullUrl = new URL(href, baseUrl.href);
+      } else {
+        fullUrl = new URL(href);
+      }
+
+      if (fullUrl.hostname === baseUrl.hostname) {
+        internal.push({ ...link, fullUrl: fullUrl.href, type: 'internal' });
+      } else {
+        external.push({ ...link, fullUrl: fullUrl.href, type: 'external' });
+      }
+    } catch (error) {
+      // Invalid URL
+    }
+  });
+
+  return { internal, external };
+}
+
+// Collapses repeated links to the same URL, keeping the first non-empty anchor text
+export function dedupeLinks(links: any[]): any[] {
+  const byUrl = new Map<string, any>();
+
+  links.forEach(link => {
+    const existing = byUrl.get(link.fullUrl);
+    if (existing) {
+      existing.occurrences++;
+      existing.text = existing.text || link.text;
+    } else {
+      byUrl.set(link.fullUrl, { ...link, occurrences: 1 });
+    }
+  });
+
+  return Array.from(byUrl.values());
+}
@@ -0,0 +1,198 @@
+import http from "http";
+import https from "https";
+import tls from "tls";
+import { performance } from "perf_hooks";
+import type { LocalPerformance, SpeedResult } from "@shared/schema";
+import { MAX_RESPONSE_BYTES, assertAllowedUrl, safeLookup } from "../http";
+import { runPool } from "../pool";
+import type { PageFetch } from "./types";
+import { assertHtmlPage } from "./context";
+
+// Rough connections for the two strategies; mobile matches Lighthouse's simulated slow 4G
+const NETWORK_PROFILES = {
+  desktop: { bytesPerSecond: 10_000_000 / 8, rttMs: 40 },
+  mobile: { bytesPerSecond: 1_600_000 / 8, rttMs: 150 }
+};
+
+const MAX_IMAGES = 30;
+const RESOURCE_CONCURRENCY = 4;
+const REQUEST_TIMEOUT = 15000;
+
+interface Transfer {
+  ttfbMs: number;
+  // Bytes on the wire, i.e. after any compression
+  bytes: number;
+  encoding: string | null;
+}
+
+// Estimates performance from what the server can measure, for audits without a PageSpeed key
+export async function analyzeLocalPerformance(page: PageFetch): Promise<SpeedResult> {
+  try {
+    assertHtmlPage(page);
+    const $ = page.$;
+
+    const resolve = (src: string | undefined) => {
+      if (!src || src.startsWith('data:')) return undefined;
+      try {
+        return new URL(src, page.finalUrl).href;
+      } catch (error) {
+        return undefined;
+      }
+    };
+
+    // Classic scripts in <head> and stylesheets for screen media hold up the first render
+    const scripts = unique($('head script[src]')
+      .filter((_, element) => {
+        const $element = $(element);
+        return $element.attr('async') === undefined && $element.attr('defer') === undefined && $element.attr('type') !== 'module';
+      })
+      .map((_, element) => resolve($(element).attr('src')))
+      .get());
+    const stylesheets = unique($('link[rel~="stylesheet"][href]')
+      .filter((_, element) => !['print', 'none'].includes(($(element).attr('media') || '').trim()))
+      .map((_, element) => resolve($(element).attr('href')))
+      .get());
+    const images = unique($('img[src]').map((_, element) => resolve($(element).attr('src'))).get()).slice(0, MAX_IMAGES);
+
+    const blocking = [
+      ...scripts.map(url => ({ url, type: 'script' as const })),
+      ...stylesheets.map(url => ({ url, type: 'stylesheet' as const }))
+    ];
+
+    const [html, http2, blockingTransfers, imageTransfers] = await Promise.all([
+      measureTransfer(page.finalUrl),
+      supportsHttp2(page.finalUrl),
+      runPool(blocking, RESOURCE_CONCURRENCY, resource => measureTransfer(resource.url).catch(() => undefined)),
+      runPool(images, RESOURCE_CONCURRENCY, url => measureTransfer(url).catch(() => undefined))
+    ]);
+
+    const sumBytes = (transfers: (Transfer | undefined)[]) =>
+      transfers.reduce((total, transfer) => total + (transfer?.bytes || 0), 0);
+
+    const renderBlockingBytes = sumBytes(blockingTransfers);
+    const imageBytes = sumBytes(imageTransfers);
+
+    const local: LocalPerformance = {
+      ttfbMs: html.ttfbMs,
+      htmlBytes: html.bytes,
+      totalBytes: html.bytes + renderBlockingBytes + imageBytes,
+      compression: html.encoding,
+      httpVersion: http2 ? 'h2' : 'http/1.1',
+      renderBlocking: {
+        scripts: scripts.length,
+        stylesheets: stylesheets.length,
+        bytes: renderBlockingBytes,
+        resources: blocking.map((resource, index) => ({
+          ...resource,
+          bytes: blockingTransfers[index]?.bytes ?? null,
+          compressed: !!blockingTransfers[index]?.encoding
+        }))
+      },
+      images: {
+        count: images.length,
+        bytes: imageBytes
+      },
+      // Text resources over 1KB sent without compression
+      uncompressedResources: blockingTransfers.filter(transfer => transfer && !transfer.encoding && transfer.bytes > 1024).length,
+      estimatedLoadMs: {
+        desktop: 0,
+        mobile: 0
+      }
+    };
+
+    local.estimatedLoadMs.desktop = estimateLoadMs(local, NETWORK_PROFILES.desktop);
+    local.estimatedLoadMs.mobile = estimateLoadMs(local, NETWORK_PROFILES.mobile);
+
+    return {
+      performance: { score: estimateScore(local, local.estimatedLoadMs.desktop), strategy: 'desktop' },
+      mobile: { score: estimateScore(local, local.estimatedLoadMs.mobile), strategy: 'mobile' },
+      estimated: true,
+      local
+    };
+
+  } catch (error: any) {
+    throw new Error(`Local performance analysis failed: ${error.message}`);
+  }
+}
+
+// Time to first byte, then one round trip per render-blocking request and the bytes over the wire
+function estimateLoadMs(local: LocalPerformance, network: { bytesPerSecond: number; rttMs: number }): number {
+  const blockingRequests = local.renderBlocking.scripts + local.renderBlocking.stylesheets;
+  return Math.round(local.ttfbMs + blockingRequests * network.rttMs + (local.totalBytes / network.bytesPerSecond) * 1000);
+}
+
+// Linear from 100 at a 1s load to 0 at 8s, with small penalties for missing compression and HTTP/2
+function estimateScore(local: LocalPerformance, loadMs: number): number {
+  let score = 100 * (8000 - loadMs) / 7000;
+  if (!local.compression) score -= 10;
+  if (local.uncompressedResources > 0) score -= 5;
+  if (local.httpVersion !== 'h2') score -= 5;
+  return Math.max(0, Math.min(100, Math.round(score)));
+}
+
+// A raw GET, since axios exposes neither time to first byte nor the compressed size
+function measureTransfer(url: string): Promise<Transfer> {
+  return new Promise((resolve, reject) => {
+    const target = assertAllowedUrl(url);
+    const client = target.protocol === 'https:' ? https : http;
+    const startedAt = performance.now();
+
+    const request = client.get(target, {
+      headers: {
+        'User-Agent': 'Mozilla/5.0 (compatible; SEO-Audit-Bot/1.0)',
+        'Accept-Encoding': 'gzip, deflate, br'
+      },
+      timeout: REQUEST_TIMEOUT,
+      lookup: safeLookup
+    }, response => {
+      const ttfbMs = Math.round(performance.now() - startedAt);
+      let bytes = 0;
+
+      response.on('data', (chunk: Buffer) => {
+        bytes += chunk.length;
+        if (bytes > MAX_RESPONSE_BYTES) {
+          request.destroy(new Error(`Response exceeded ${MAX_RESPONSE_BYTES} bytes`));
+        }
+      });
+      response.on('end', () => resolve({
+        ttfbMs,
+        bytes,
+        encoding: response.headers['content-encoding'] || null
+      }));
+      response.on('error', reject);
+    });
+
+    request.on('timeout', () => request.destroy(new Error(`Timed out after ${REQUEST_TIMEOUT}ms`)));
+    request.on('error', reject);
+  });
+}
+
+// Checks ALPN negotiation; plain HTTP never gets HTTP/2 from browsers
+function supportsHttp2(url: string): Promise<boolean> {
+  const target = assertAllowedUrl(url);
+  if (target.protocol !== 'https:') {
+    return Promise.resolve(false);
+  }
+
+  return new Promise(resolve => {
+    const socket = tls.connect({
+      host: target.hostname,
+      port: Number(target.port) || 443,
+      servername: target.hostname,
+      ALPNProtocols: ['h2', 'http/1.1'],
+      timeout: REQUEST_TIMEOUT,
+      lookup: safeLookup
+    }, () => {
+      resolve(socket.alpnProtocol === 'h2');
+      socket.end();
+    });
+
+    socket.on('timeout', () => socket.destroy());
+    socket.on('error', () => resolve(false));
+    socket.on('close', () => resolve(false));
+  });
+}
+
+function unique(urls: string[]): string[] {
+  return Array.from(new Set(urls));
+}
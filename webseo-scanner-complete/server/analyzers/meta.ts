@@ -0,0 +1,283 @@
+import * as cheerio from "cheerio";
+import type { AuditSettings, MetaTagItem } from "@shared/schema";
+import type { Analyzer, PageFetch } from "./types";
+import { assertHtmlPage, DEFAULT_AUDIT_SETTINGS } from "./context";
+
+export const metaAnalyzer: Analyzer<{ items: MetaTagItem[] }> = {
+  id: "meta",
+  name: "Meta analysis",
+  description: "Meta tags extraction and analysis",
+  category: "content",
+  run: async ({ page, settings }) => ({ items: analyzeMeta(await page(), settings) }),
+
+  checks(result) {
+    return result.items.map(item => ({ label: item.name, category: 'content', status: item.status }));
+  },
+
+  recommend(result) {
+    return result.items
+      .filter(item => item.status === 'warning' || item.status === 'error')
+      .map(item => ({
+        title: `Improve ${item.name}`,
+        description: item.description,
+        priority: item.status === 'error' ? 'high' : 'medium',
+        category: 'meta'
+      }));
+  }
+};
+
+// Meta tags analysis using Cheerio
+export function analyzeMeta(page: PageFetch, settings: AuditSettings = DEFAULT_AUDIT_SETTINGS): MetaTagItem[] {
+  try {
+    assertHtmlPage(page);
+    return extractMetaItems(page.$, page.finalUrl, settings);
+
+  } catch (error: any) {
+    throw new Error(`Meta analysis failed: ${error.message}`);
+  }
+}
+
+// Runs every meta tag check against an already parsed document
+export function extractMetaItems(
+  $: cheerio.CheerioAPI,
+  url: string,
+  settings: AuditSettings = DEFAULT_AUDIT_SETTINGS
+): MetaTagItem[] {
+  const items: MetaTagItem[] = [];
+
+  // Title tag analysis
+  const title = $('title').text().trim();
+  items.push(analyzeTitle(title, settings.title));
+
+  // Meta description analysis
+  const description = $('meta[name="description"]').attr('content') || '';
+  items.push(analyzeDescription(description, settings.description));
+
+  // Canonical URL
+  const canonical = $('link[rel="canonical"]').attr('href') || '';
+  items.push(analyzeCanonical(canonical, url));
+
+  // Open Graph tags
+  const ogTags = extractOpenGraphTags($);
+  items.push(analyzeOpenGraph(ogTags, settings.openGraph.required));
+
+  // Twitter Card tags
+  if (settings.twitterCards) {
+    const twitterTags = extractTwitterTags($);
+    items.push(analyzeTwitterCards(twitterTags));
+  }
+
+  // Viewport meta tag
+  const viewport = $('meta[name="viewport"]').attr('content') || '';
+  items.push(analyzeViewport(viewport));
+
+  // Language declaration
+  const lang = $('html').attr('lang') || '';
+  items.push(analyzeLanguage(lang));
+
+  // H1 tags
+  const h1Tags = $('h1').map((i, el) => $(el).text().trim()).get();
+  items.push(analyzeH1Tags(h1Tags, settings.h1));
+
+  return items;
+}
+
+function analyzeTitle(title: string, range: AuditSettings["title"]): MetaTagItem {
+  let status: 'good' | 'warning' | 'error' = 'good';
+  let description = `Title: "${title}" (${title.length} characters)`;
+
+  if (!title) {
+    status = 'error';
+    description = 'Missing title tag';
+  } else if (title.length < range.min) {
+    status = 'warning';
+    description = `Title too short: "${title}" (${title.length} characters). Recommended: ${range.min}-${range.max} characters`;
+  } else if (title.length > range.max) {
+    status = 'warning';
+    description = `Title too long: "${title}" (${title.length} characters). May be truncated in search results`;
+  }
+
+  return {
+    name: 'Title Tag',
+    status,
+    description,
+    value: title,
+    length: title.length
+  };
+}
+
+function analyzeDescription(description: string, range: AuditSettings["description"]): MetaTagItem {
+  let status: 'good' | 'warning' | 'error' = 'good';
+  let desc = `Meta description: "${description}" (${description.length} characters)`;
+
+  if (!description) {
+    status = 'error';
+    desc = 'Missing meta description';
+  } else if (description.length < range.min) {
+    status = 'warning';
+    desc = `Meta description too short: ${description.length} characters. Recommended: ${range.min}-${range.max} characters`;
+  } else if (description.length > range.max) {
+    status = 'warning';
+    desc = `Meta description too long: ${description.length} characters. May be truncated in search results`;
+  }
+
+  return {
+    name: 'Meta Description',
+    status,
+    description: desc,
+    value: description,
+    length: description.length
+  };
+}
+
+function analyzeCanonical(canonical: string, url: string): MetaTagItem {
+  let status: 'good' | 'warning' | 'error' = 'good';
+  let description = 'Canonical URL properly set';
+
+  if (!canonical) {
+    status = 'warning';
+    description = 'Missing canonical URL - may cause duplicate content issues';
+  } else {
+    try {
+      const canonicalUrl = new URL(canonical, url);
+      description = `Canonical URL: ${canonicalUrl.href}`;
+    } catch (error) {
+      status = 'error';
+      description = 'Invalid canonical URL format';
+    }
+  }
+
+  return {
+    name: 'Canonical URL',
+    status,
+    description,
+    value: canonical
+  };
+}
+
+function extractOpenGraphTags($: cheerio.CheerioAPI): Record<string, string> {
+  const ogTags: Record<string, string> = {};
+  $('meta[property^="og:"]').each((i, el) => {
+    const property = $(el).attr('property');
+    const content = $(el).attr('content');
+    if (property && content) {
+      ogTags[property] = content;
+    }
+  });
+  return ogTags;
+}
+
+function analyzeOpenGraph(ogTags: Record<string, string>, requiredTags: string[]): MetaTagItem {
+  const missingTags = requiredTags.filter(tag => !ogTags[tag]);
+  
+  let status: 'good' | 'warning' | 'error' = 'good';
+  let description = 'All essential Open Graph tags present';
+
+  if (missingTags.length > 0) {
+    status = missingTags.length > 2 ? 'error' : 'warning';
+    description = `Missing Open Graph tags: ${missingTags.join(', ')}`;
+  }
+
+  return {
+    name: 'Open Graph Tags',
+    status,
+    description,
+    value: JSON.stringify(ogTags)
+  };
+}
+
+function extractTwitterTags($: cheerio.CheerioAPI): Record<string, string> {
+  const twitterTags: Record<string, string> = {};
+  $('meta[name^="twitter:"]').each((i, el) => {
+    const name = $(el).attr('name');
+    const content = $(el).attr('content');
+    if (name && content) {
+      twitterTags[name] = content;
+    }
+  });
+  return twitterTags;
+}
+
+function analyzeTwitterCards(twitterTags: Record<string, string>): MetaTagItem {
+  const hasCard = twitterTags['twitter:card'];
+  
+  let status: 'good' | 'warning' | 'error' = 'good';
+  let description = 'Twitter Card tags properly configured';
+
+  if (!hasCard) {
+    status = 'warning';
+    description = 'Missing Twitter Card meta tags';
+  } else if (!twitterTags['twitter:title'] || !twitterTags['twitter:description']) {
+    status = 'warning';
+    description = 'Twitter Card incomplete - missing title or description';
+  }
+
+  return {
+    name: 'Twitter Cards',
+    status,
+    description,
+    value: JSON.stringify(twitterTags)
+  };
+}
+
+function analyzeViewport(viewport: string): MetaTagItem {
+  let status: 'good' | 'warning' | 'error' = 'good';
+  let description = 'Viewport meta tag properly configured';
+
+  if (!viewport) {
+    status = 'error';
+    description = 'Missing viewport meta tag - required for mobile responsiveness';
+  } else if (!viewport.includes('width=device-width')) {
+    status = 'warning';
+    description = 'Viewport tag should include width=device-width for proper mobile rendering';
+  }
+
+  return {
+    name: 'Viewport Meta Tag',
+    status,
+    description,
+    value: viewport
+  };
+}
+
+function analyzeLanguage(lang: string): MetaTagItem {
+  return {
+    name: 'Language Declaration',
+    status: lang ? 'good' : 'warning',
+    description: lang ? 
+      `Language declared as: ${lang}` : 
+      'Missing language declaration in HTML tag',
+    value: lang
+  };
+}
+
+function analyzeH1Tags(h1Tags: string[], limits: AuditSettings["h1"]): MetaTagItem {
+  let status: 'good' | 'warning' | 'error' = 'good';
+  let description = 'H1 tag properly used';
+
+  if (h1Tags.length === 0) {
+    status = 'error';
+    description = 'Missing H1 tag - important for SEO structure';
+  } else if (h1Tags.length > limits.maxCount) {
+    status = 'warning';
+    description = limits.maxCount === 1
+      ? `Multiple H1 tags found (${h1Tags.length}). Single H1 recommended`
+      : `${h1Tags.length} H1 tags found. At most ${limits.maxCount} recommended`;
+  } else {
+    const longest = h1Tags.reduce((a, b) => b.length > a.length ? b : a);
+    description = h1Tags.length === 1
+      ? `H1 tag: "${h1Tags[0]}" (${h1Tags[0].length} characters)`
+      : `${h1Tags.length} H1 tags, the longest ${longest.length} characters`;
+    if (longest.length > limits.maxLength) {
+      status = 'warning';
+      description += ' - Consider shorter H1 for better readability';
+    }
+  }
+
+  return {
+    name: 'H1 Tags',
+    status,
+    description,
+    value: h1Tags.join(', ')
+  };
+}
@@ -0,0 +1,131 @@
+import type { RedirectChain, RedirectHop, RedirectsResult, Recommendation } from "@shared/schema";
+import type { Analyzer } from "./types";
+
+const TEMPORARY_REDIRECTS = new Set([302, 307]);
+
+export const redirectsAnalyzer: Analyzer<RedirectsResult> = {
+  id: "redirects",
+  name: "Redirects analysis",
+  description: "Redirect chains for the audited URL and its links",
+  category: "technical",
+  run: async ({ page, checkedLinks }) => {
+    const fetched = await page();
+    // Link checks fail along with the page itself; the page's own chain is still worth reporting
+    const links = await checkedLinks().catch(() => []);
+    return analyzeRedirects(fetched.requestedUrl, fetched.redirects, links);
+  },
+
+  recommend(result) {
+    const recommendations: Recommendation[] = [];
+
+    if (result.page.status !== 'good') {
+      recommendations.push({
+        title: 'Fix redirects on the audited URL',
+        description: result.page.warnings.join('; '),
+        priority: result.page.status === 'error' ? 'high' : 'medium',
+        category: 'redirects'
+      });
+    }
+
+    const badLinks = result.links.filter(link => link.status === 'error');
+    if (badLinks.length > 0) {
+      recommendations.push({
+        title: 'Fix broken redirects in links',
+        description: `${badLinks.length} links hit a redirect loop, too many redirects or an HTTPS to HTTP downgrade`,
+        priority: 'high',
+        category: 'redirects'
+      });
+    }
+
+    if (result.summary.redirectedLinks > badLinks.length) {
+      recommendations.push({
+        title: 'Update links that redirect',
+        description: `${result.summary.redirectedLinks - badLinks.length} links go through redirects; point them straight at their final URLs`,
+        priority: 'low',
+        category: 'redirects'
+      });
+    }
+
+    return recommendations;
+  }
+};
+
+// Redirects analysis
+export function analyzeRedirects(
+  url: string,
+  pageRedirects: { hops: RedirectHop[]; loop: boolean; exceeded: boolean },
+  checkedLinks: any[]
+): RedirectsResult {
+  try {
+    const pageChain = analyzeRedirectChain(url, pageRedirects.hops, pageRedirects.loop, pageRedirects.exceeded);
+
+    const links = checkedLinks
+      .filter(link => link.redirects?.some((hop: RedirectHop) => hop.location))
+      .map(link => ({
+        ...analyzeRedirectChain(link.fullUrl, link.redirects, !!link.redirectLoop, !!link.tooManyRedirects),
+        text: link.text,
+        type: link.type
+      }));
+
+    const chains = [pageChain, ...links];
+    const allRedirects = chains.flatMap(chain => chain.hops.filter(hop => hop.location));
+
+    const summary = {
+      redirectedLinks: links.length,
+      longChains: chains.filter(chain => countRedirects(chain.hops) > 1).length,
+      loops: chains.filter(chain => chain.warnings.some(warning => warning.startsWith('Redirect loop'))).length,
+      temporaryRedirects: allRedirects.filter(hop => TEMPORARY_REDIRECTS.has(hop.statusCode)).length,
+      httpsDowngrades: allRedirects.filter(isDowngrade).length
+    };
+
+    const statuses = chains.map(chain => chain.status);
+    const status = statuses.includes('error') ? 'error' : statuses.includes('warning') ? 'warning' : 'good';
+
+    return { page: pageChain, links, summary, status };
+
+  } catch (error: any) {
+    throw new Error(`Redirects analysis failed: ${error.message}`);
+  }
+}
+
+export function analyzeRedirectChain(url: string, hops: RedirectHop[], loop: boolean, exceeded: boolean): RedirectChain {
+  const warnings: string[] = [];
+  let status: 'good' | 'warning' | 'error' = 'good';
+  const redirects = hops.filter(hop => hop.location);
+  const last = hops[hops.length - 1];
+  const finalUrl = last?.location && (loop || exceeded) ? last.location : last?.url || url;
+
+  if (loop) {
+    status = 'error';
+    warnings.push(`Redirect loop back to ${last.location}`);
+  } else if (exceeded) {
+    status = 'error';
+    warnings.push(`Gave up after ${redirects.length} redirects`);
+  }
+
+  if (redirects.length > 1) {
+    if (status === 'good') status = 'warning';
+    warnings.push(`Redirect chain of ${redirects.length} hops before reaching ${finalUrl}`);
+  }
+
+  redirects.forEach(hop => {
+    if (TEMPORARY_REDIRECTS.has(hop.statusCode)) {
+      if (status === 'good') status = 'warning';
+      warnings.push(`${hop.url} uses a temporary ${hop.statusCode} redirect; use 301 if the move is permanent`);
+    }
+    if (isDowngrade(hop)) {
+      status = 'error';
+      warnings.push(`HTTPS to HTTP downgrade: ${hop.url} redirects to ${hop.location}`);
+    }
+  });
+
+  return { url, finalUrl, hops, warnings, status };
+}
+
+function countRedirects(hops: RedirectHop[]): number {
+  return hops.filter(hop => hop.location).length;
+}
+
+function isDowngrade(hop: RedirectHop): boolean {
+  return hop.url.startsWith('https://') && !!hop.location?.startsWith('http://');
+}
@@ -0,0 +1,27 @@
+import type { Analyzer } from "./types";
+
+const analyzers = new Map<string, Analyzer>();
+
+export function registerAnalyzer(analyzer: Analyzer): void {
+  if (analyzers.has(analyzer.id)) {
+    throw new Error(`Analyzer "${analyzer.id}" is already registered`);
+  }
+  analyzers.set(analyzer.id, analyzer);
+}
+
+export function getAnalyzer(id: string): Analyzer | undefined {
+  return analyzers.get(id);
+}
+
+// Analyzers in registration order
+export function getAnalyzers(): Analyzer[] {
+  return Array.from(analyzers.values());
+}
+
+// Profiles may only switch off analyzers that exist
+export function assertKnownAnalyzers(ids: string[]): void {
+  const unknown = ids.filter(id => !analyzers.has(id));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown analyzers: ${unknown.join(', ')}`);
+  }
+}
@@ -0,0 +1,278 @@
+import { URL } from "url";
+import type { RobotsResult, Recommendation } from "@shared/schema";
+import { followRedirects } from "../http";
+import type { Analyzer, PageFetch } from "./types";
+import { assertHtmlPage } from "./context";
+import { extractLinks } from "./links";
+import { checkLinksStatus } from "./link-checker";
+import { ROBOTS_USER_AGENTS, isAllowed, parseRobotsTxt, type RobotsTxt } from "../robots-txt";
+import { loadSitemaps } from "../sitemap";
+
+// Sitemap URLs whose status is checked on every audit
+const SITEMAP_SAMPLE_SIZE = 20;
+// Cap on listed problem entries; the counts still cover all of them
+const MAX_REPORTED_ENTRIES = 50;
+
+export const robotsAnalyzer: Analyzer<RobotsResult> = {
+  id: "robots",
+  name: "Robots analysis",
+  description: "Robots.txt and sitemap analysis",
+  category: "technical",
+  run: async ({ url, page }) => {
+    // robots.txt is still worth checking when the page itself can't be fetched
+    const fetched = await page().catch(() => undefined);
+    const links = fetched && isHtml(fetched)
+      ? extractLinks(fetched.$, new URL(fetched.finalUrl)).internal.map(link => link.fullUrl)
+      : [];
+    return analyzeRobots(url, links);
+  },
+
+  checks(result) {
+    // A robots.txt that blocks search engines from the page is worse than none
+    const blocked = isBlockedForSearchEngines(result);
+    return [
+      { id: 'robots-txt', label: 'robots.txt', category: 'technical', status: result.robotsTxt?.found && !blocked ? 'good' : 'error' },
+      { id: 'sitemap', label: 'XML sitemap', category: 'technical', status: result.sitemap?.found ? 'good' : 'error' }
+    ];
+  },
+
+  recommend(result) {
+    const recommendations: Recommendation[] = [];
+    if (!result.robotsTxt?.found) {
+      recommendations.push({
+        title: 'Add robots.txt file',
+        description: 'Create a robots.txt file to help search engines crawl your site',
+        priority: 'medium',
+        category: 'technical'
+      });
+    }
+    if (isBlockedForSearchEngines(result)) {
+      const blocked = (result.robotsTxt.access || []).filter(access => !access.allowed);
+      recommendations.push({
+        title: 'Unblock this page in robots.txt',
+        description: `robots.txt stops ${blocked.map(access => `${access.userAgent} (${access.rule})`).join(', ')} from crawling this page`,
+        priority: 'high',
+        category: 'technical'
+      });
+    }
+    if (result.robotsTxt?.errors?.length) {
+      recommendations.push({
+        title: 'Fix robots.txt syntax errors',
+        description: result.robotsTxt.errors.map(error => `Line ${error.line}: ${error.message}`).join('; '),
+        priority: 'medium',
+        category: 'technical'
+      });
+    }
+    if (result.robotsTxt?.unknownDirectives?.length) {
+      recommendations.push({
+        title: 'Remove unsupported robots.txt directives',
+        description: `Crawlers ignore ${result.robotsTxt.unknownDirectives.map(item => `${item.directive} (line ${item.line})`).join(', ')}`,
+        priority: 'low',
+        category: 'technical'
+      });
+    }
+    if (!result.sitemap?.found) {
+      recommendations.push({
+        title: 'Add XML sitemap',
+        description: 'Create and submit an XML sitemap to help search engines index your pages',
+        priority: 'medium',
+        category: 'technical'
+      });
+    }
+    const sitemapErrors = (result.sitemap?.files || []).flatMap(file => file.errors.map(error => `${file.url}: ${error}`));
+    if (result.sitemap?.found && sitemapErrors.length > 0) {
+      recommendations.push({
+        title: 'Fix sitemap errors',
+        description: sitemapErrors.join('; '),
+        priority: 'medium',
+        category: 'technical'
+      });
+    }
+    if (result.sitemap?.invalidEntryCount) {
+      recommendations.push({
+        title: 'Fix invalid sitemap entries',
+        description: `${result.sitemap.invalidEntryCount} sitemap entries have an invalid URL, lastmod, changefreq or priority`,
+        priority: 'medium',
+        category: 'technical'
+      });
+    }
+    if (result.sitemap?.otherHostCount) {
+      recommendations.push({
+        title: 'Remove other hosts from the sitemap',
+        description: `${result.sitemap.otherHostCount} sitemap URLs are on a different host than their sitemap and will be ignored`,
+        priority: 'medium',
+        category: 'technical'
+      });
+    }
+    if (result.sitemap?.sample?.failures.length) {
+      recommendations.push({
+        title: 'Keep only live URLs in the sitemap',
+        description: `${result.sitemap.sample.failures.length} of ${result.sitemap.sample.checked} sampled sitemap URLs did not return 200`,
+        priority: 'medium',
+        category: 'technical'
+      });
+    }
+    return recommendations;
+  }
+};
+
+// Robots and sitemap analysis
+export async function analyzeRobots(url: string, linkUrls: string[] = []): Promise<RobotsResult> {
+  try {
+    const baseUrl = new URL(url);
+    const robotsUrl = new URL('/robots.txt', baseUrl.origin).href;
+    const robotsResult = await checkRobotsTxt(robotsUrl).catch(() => undefined);
+
+    const robotsTxt: RobotsResult["robotsTxt"] = {
+      found: false,
+      accessible: false,
+      size: 0,
+      sitemaps: []
+    };
+
+    // A missing robots.txt allows everything, so access is reported either way
+    let rules: RobotsTxt = parseRobotsTxt('');
+    if (robotsResult) {
+      const { content, parsed } = robotsResult;
+      rules = parsed;
+      Object.assign(robotsTxt, {
+        found: true,
+        accessible: true,
+        size: content.length,
+        sitemaps: parsed.sitemaps,
+        groups: parsed.groups.length,
+        crawlDelays: parsed.groups.flatMap(group =>
+          group.crawlDelay === undefined ? [] : group.userAgents.map(userAgent => ({ userAgent, delay: group.crawlDelay! }))
+        ),
+        errors: parsed.errors,
+        unknownDirectives: parsed.unknownDirectives
+      });
+    }
+
+    robotsTxt.access = ROBOTS_USER_AGENTS.map(userAgent => ({ userAgent, ...isAllowed(rules, userAgent, url) }));
+    robotsTxt.blockedLinks = findBlockedLinks(rules, baseUrl, linkUrls);
+
+    // Sitemaps declared in robots.txt take precedence over the conventional location
+    const sitemapUrls = rules.sitemaps.length > 0 ? rules.sitemaps : [new URL('/sitemap.xml', baseUrl.origin).href];
+    const sitemap = await analyzeSitemaps(sitemapUrls);
+
+    return { robotsTxt, sitemap };
+
+  } catch (error: any) {
+    throw new Error(`Robots analysis failed: ${error.message}`);
+  }
+}
+
+// Fetches and parses robots.txt; undefined when the site doesn't serve one
+export async function loadRobotsTxt(url: string): Promise<RobotsTxt | undefined> {
+  const result = await checkRobotsTxt(new URL('/robots.txt', url).href).catch(() => undefined);
+  return result?.parsed;
+}
+
+async function checkRobotsTxt(robotsUrl: string): Promise<{ content: string; parsed: RobotsTxt } | undefined> {
+  const { response } = await followRedirects({
+    url: robotsUrl,
+    method: 'GET',
+    headers: {
+      'User-Agent': 'Mozilla/5.0 (compatible; SEO-Audit-Bot/1.0)'
+    },
+    timeout: 10000,
+    maxContentLength: 1024 * 1024,
+    responseType: 'text'
+  });
+
+  if (response.status !== 200) {
+    return undefined;
+  }
+
+  const content = String(response.data);
+  return { content, parsed: parseRobotsTxt(content) };
+}
+
+// robots.txt only governs its own origin, so links elsewhere are not evaluated
+function findBlockedLinks(rules: RobotsTxt, baseUrl: URL, linkUrls: string[]): { url: string; userAgents: string[] }[] {
+  return Array.from(new Set(linkUrls))
+    .filter(linkUrl => {
+      try {
+        return new URL(linkUrl).origin === baseUrl.origin;
+      } catch (error) {
+        return false;
+      }
+    })
+    .map(linkUrl => ({
+      url: linkUrl,
+      userAgents: ROBOTS_USER_AGENTS.filter(userAgent => !isAllowed(rules, userAgent, linkUrl).allowed)
+    }))
+    .filter(link => link.userAgents.length > 0);
+}
+
+function isBlockedForSearchEngines(result: RobotsResult): boolean {
+  return (result.robotsTxt?.access || []).some(access => access.userAgent !== 'SEO-Audit-Bot' && !access.allowed);
+}
+
+function isHtml(page: PageFetch): boolean {
+  try {
+    assertHtmlPage(page);
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+async function analyzeSitemaps(sitemapUrls: string[]): Promise<RobotsResult["sitemap"]> {
+  const collection = await loadSitemaps(sitemapUrls);
+  // Error pages served with 200 at the sitemap URL don't count as a sitemap
+  const loaded = collection.files.filter(file => file.type);
+  const urls = collection.urls;
+
+  // The protocol only allows URLs on the sitemap's own host
+  const otherHostUrls = urls
+    .filter(entry => hostOf(entry.loc) !== hostOf(entry.sitemap))
+    .map(entry => entry.loc);
+
+  const sample = sampleEvenly(urls.map(entry => entry.loc), SITEMAP_SAMPLE_SIZE);
+  const checked = await checkLinksStatus(sample.map(loc => ({ fullUrl: loc })));
+  const failures = checked
+    .map(link => ({
+      url: link.fullUrl,
+      // A sitemap should list final URLs, so a redirect counts as a failure
+      statusCode: link.redirects[0]?.statusCode ?? link.statusCode,
+      ...(link.error && { error: link.error })
+    }))
+    .filter(failure => failure.statusCode !== 200);
+
+  return {
+    found: loaded.length > 0,
+    accessible: loaded.length > 0,
+    urlCount: urls.length,
+    format: loaded[0]?.type,
+    files: collection.files,
+    extensions: {
+      lastmod: urls.filter(entry => entry.lastmod).length,
+      changefreq: urls.filter(entry => entry.changefreq).length,
+      priority: urls.filter(entry => entry.priority !== undefined).length,
+      images: urls.reduce((total, entry) => total + entry.images.length, 0),
+      alternates: urls.reduce((total, entry) => total + entry.alternates.length, 0)
+    },
+    invalidEntries: collection.invalidEntries.slice(0, MAX_REPORTED_ENTRIES),
+    invalidEntryCount: collection.invalidEntries.length,
+    otherHostUrls: otherHostUrls.slice(0, MAX_REPORTED_ENTRIES),
+    otherHostCount: otherHostUrls.length,
+    sample: { checked: checked.length, failures }
+  };
+}
+
+// Picks up to `size` items spread across the whole list rather than just its head
+function sampleEvenly<T>(items: T[], size: number): T[] {
+  if (items.length <= size) return items;
+  const step = items.length / size;
+  return Array.from({ length: size }, (_, index) => items[Math.floor(index * step)]);
+}
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch (error) {
+    return '';
+  }
+}
@@ -0,0 +1,360 @@
+import axios from "axios";
+import type {
+  FieldData,
+  FieldMetric,
+  LabMetrics,
+  LighthouseAudit,
+  LighthouseCategories,
+  Recommendation,
+  SpeedResult
+} from "@shared/schema";
+import type { Analyzer } from "./types";
+import { analyzeLocalPerformance } from "./local-performance";
+
+export const speedAnalyzer: Analyzer<SpeedResult> = {
+  id: "speed",
+  name: "Speed analysis",
+  description: "Google PageSpeed Insights analysis",
+  category: "performance",
+  // Without an API key, fall back to estimates from server-side measurements
+  run: async ({ url, page }) => process.env.PAGESPEED_API_KEY ? analyzeSpeed(url) : analyzeLocalPerformance(await page()),
+
+  checks(result) {
+    if (!result.performance) {
+      return [];
+    }
+    const mobile = result.mobile?.score ?? result.performance.score;
+    return [
+      { id: 'desktop', label: 'Desktop performance', category: 'performance', value: result.performance.score, status: lighthouseStatus(result.performance.score) },
+      { id: 'mobile', label: 'Mobile performance', category: 'mobile', value: mobile, status: lighthouseStatus(mobile) }
+    ];
+  },
+
+  estimated(result) {
+    return !!result.estimated;
+  },
+
+  recommend(result) {
+    const recommendations: Recommendation[] = [];
+
+    // Lighthouse's own findings are more useful than the generic advice
+    if (result.opportunities?.length) {
+      result.opportunities.slice(0, MAX_OPPORTUNITY_RECOMMENDATIONS).forEach(opportunity => {
+        recommendations.push({
+          title: opportunity.title,
+          description: describeOpportunity(opportunity),
+          priority: opportunityPriority(opportunity),
+          category: 'performance'
+        });
+      });
+    } else if (result.performance?.score && result.performance.score < 80) {
+      recommendations.push({
+        title: 'Improve Page Speed',
+        description: 'Optimize images, minify CSS/JS, and enable compression to improve loading speed',
+        priority: result.performance.score < 50 ? 'high' : 'medium',
+        category: 'performance'
+      });
+    }
+
+    const field = result.fieldData?.url || result.fieldData?.origin;
+    if (field) {
+      (Object.entries(field.metrics) as [keyof FieldData["metrics"], FieldMetric][])
+        .filter(([, metric]) => metric.category !== 'good')
+        .forEach(([key, metric]) => {
+          recommendations.push({
+            title: `Improve ${FIELD_METRIC_NAMES[key]} for real users`,
+            description: `75% of ${result.fieldData?.url ? 'visits to this page' : 'visits to this site'} see ${formatFieldValue(key, metric.percentile)} or better, which Chrome rates ${metric.category.replace('-', ' ')}`,
+            priority: metric.category === 'poor' ? 'high' : 'medium',
+            category: 'performance'
+          });
+        });
+    }
+
+    const local = result.local;
+    if (!local) {
+      return recommendations;
+    }
+
+    if (!local.compression || local.uncompressedResources > 0) {
+      recommendations.push({
+        title: 'Enable compression',
+        description: `Serve HTML${local.uncompressedResources > 0 ? `, scripts and stylesheets (${local.uncompressedResources} uncompressed)` : ''} with gzip or Brotli`,
+        priority: 'medium',
+        category: 'performance'
+      });
+    }
+    if (local.ttfbMs > 600) {
+      recommendations.push({
+        title: 'Reduce server response time',
+        description: `The server took ${local.ttfbMs}ms to send the first byte; aim for under 600ms`,
+        priority: local.ttfbMs > 1800 ? 'high' : 'medium',
+        category: 'performance'
+      });
+    }
+    const blockingCount = local.renderBlocking.scripts + local.renderBlocking.stylesheets;
+    if (blockingCount > 2) {
+      recommendations.push({
+        title: 'Eliminate render-blocking resources',
+        description: `${local.renderBlocking.scripts} scripts and ${local.renderBlocking.stylesheets} stylesheets (${Math.round(local.renderBlocking.bytes / 1024)}KB) block the first render; defer scripts and inline critical CSS`,
+        priority: 'medium',
+        category: 'performance'
+      });
+    }
+    if (local.httpVersion !== 'h2') {
+      recommendations.push({
+        title: 'Serve the site over HTTP/2',
+        description: 'HTTP/2 lets the browser fetch many resources over one connection',
+        priority: 'low',
+        category: 'performance'
+      });
+    }
+
+    return recommendations;
+  }
+};
+
+const MAX_OPPORTUNITY_RECOMMENDATIONS = 10;
+
+const FIELD_METRIC_NAMES: Record<keyof FieldData["metrics"], string> = {
+  lcp: 'Largest Contentful Paint',
+  inp: 'Interaction to Next Paint',
+  cls: 'Cumulative Layout Shift',
+  fcp: 'First Contentful Paint',
+  ttfb: 'Time to First Byte'
+};
+
+function formatFieldValue(key: keyof FieldData["metrics"], percentile: number): string {
+  return key === 'cls' ? percentile.toFixed(2) : `${percentile}ms`;
+}
+
+function describeOpportunity(opportunity: LighthouseAudit): string {
+  const savings = [
+    opportunity.savingsMs ? `${(opportunity.savingsMs / 1000).toFixed(1)}s` : '',
+    opportunity.savingsBytes ? `${Math.round(opportunity.savingsBytes / 1024)}KB` : ''
+  ].filter(Boolean);
+
+  const details = savings.length > 0 ? `Estimated savings: ${savings.join(', ')}` : opportunity.displayValue;
+  return details ? `${opportunity.description} (${details})` : opportunity.description;
+}
+
+function opportunityPriority(opportunity: LighthouseAudit): Recommendation["priority"] {
+  const savingsMs = opportunity.savingsMs || 0;
+  if (savingsMs >= 1000 || (opportunity.type === 'diagnostic' && (opportunity.score ?? 1) < 0.5)) return 'high';
+  if (savingsMs >= 300 || (opportunity.savingsBytes || 0) >= 100 * 1024) return 'medium';
+  return 'low';
+}
+
+// Lighthouse colours scores of 90+ green and under 50 red
+function lighthouseStatus(score: number): 'good' | 'warning' | 'error' {
+  if (score >= 90) return 'good';
+  return score >= 50 ? 'warning' : 'error';
+}
+
+const DEFAULT_PAGESPEED_API_URL = "https://www.googleapis.com/pagespeedonline/v5/runPagespeed";
+
+// Speed analysis using Google PageSpeed Insights API
+export async function analyzeSpeed(url: string): Promise<SpeedResult> {
+  const apiKey = process.env.PAGESPEED_API_KEY;
+  
+  if (!apiKey) {
+    throw new Error("PageSpeed API key not configured");
+  }
+
+  // Overridable so tests and staging can point at a stub that serves recorded responses
+  const pageSpeedUrl = process.env.PAGESPEED_API_URL || DEFAULT_PAGESPEED_API_URL;
+
+  try {
+    const [desktopResponse, mobileResponse] = await Promise.allSettled([
+      axios.get(pageSpeedUrl, {
+        params: {
+          url,
+          key: apiKey,
+          strategy: "desktop",
+          category: ["PERFORMANCE", "ACCESSIBILITY", "BEST_PRACTICES", "SEO"]
+        },
+        timeout: 30000
+      }),
+      axios.get(pageSpeedUrl, {
+        params: {
+          url,
+          key: apiKey,
+          strategy: "mobile", 
+          category: ["PERFORMANCE", "ACCESSIBILITY", "BEST_PRACTICES", "SEO"]
+        },
+        timeout: 30000
+      })
+    ]);
+
+    // With neither run there is nothing to score; failing lets scoring penalise it instead of dropping it
+    if (desktopResponse.status === "rejected" && mobileResponse.status === "rejected") {
+      throw desktopResponse.reason;
+    }
+
+    const result: SpeedResult = {};
+    const categories: NonNullable<SpeedResult["categories"]> = {};
+    const labMetrics: NonNullable<SpeedResult["labMetrics"]> = {};
+    const opportunities: LighthouseAudit[] = [];
+
+    // Process desktop results
+    if (desktopResponse.status === "fulfilled") {
+      const lighthouse = desktopResponse.value.data.lighthouseResult;
+      result.performance = {
+        score: Math.round((lighthouse.categories.performance?.score || 0) * 100),
+        strategy: "desktop"
+      };
+      categories.desktop = extractCategories(lighthouse);
+      labMetrics.desktop = extractLabMetrics(lighthouse);
+    }
+
+    // Process mobile results  
+    if (mobileResponse.status === "fulfilled") {
+      const lighthouse = mobileResponse.value.data.lighthouseResult;
+      result.mobile = {
+        score: Math.round((lighthouse.categories.performance?.score || 0) * 100),
+        strategy: "mobile"
+      };
+      categories.mobile = extractCategories(lighthouse);
+      labMetrics.mobile = extractLabMetrics(lighthouse);
+      // Mobile-first indexing makes the mobile run the one to act on
+      opportunities.push(...extractOpportunities(lighthouse, "mobile"));
+
+      const data = mobileResponse.value.data;
+      const fieldData = {
+        // PageSpeed substitutes origin data when the URL has too little traffic
+        url: data.loadingExperience?.origin_fallback ? undefined : extractFieldData(data.loadingExperience),
+        origin: extractFieldData(data.originLoadingExperience)
+      };
+      if (fieldData.url || fieldData.origin) {
+        result.fieldData = fieldData;
+      }
+
+      // Extract Core Web Vitals from mobile
+      const audits = lighthouse.audits;
+      if (audits) {
+        const inp = (fieldData.url || fieldData.origin)?.metrics.inp;
+        result.coreWebVitals = {
+          lcp: audits['largest-contentful-paint']?.displayValue || 'N/A',
+          inp: inp ? `${inp.percentile} ms` : 'N/A',
+          cls: audits['cumulative-layout-shift']?.displayValue || 'N/A',
+          fcp: audits['first-contentful-paint']?.displayValue || 'N/A',
+          si: audits['speed-index']?.displayValue || 'N/A'
+        };
+      }
+    } else if (desktopResponse.status === "fulfilled") {
+      opportunities.push(...extractOpportunities(desktopResponse.value.data.lighthouseResult, "desktop"));
+    }
+
+    if (categories.desktop || categories.mobile) {
+      result.categories = categories;
+      result.labMetrics = labMetrics;
+      result.opportunities = opportunities;
+    }
+
+    return result;
+
+  } catch (error: any) {
+    throw new Error(`PageSpeed analysis failed: ${error.response?.data?.error?.message || error.message}`);
+  }
+}
+
+function extractCategories(lighthouse: any): LighthouseCategories {
+  const score = (category: any) =>
+    typeof category?.score === 'number' ? Math.round(category.score * 100) : null;
+
+  return {
+    performance: score(lighthouse.categories?.performance),
+    accessibility: score(lighthouse.categories?.accessibility),
+    bestPractices: score(lighthouse.categories?.['best-practices']),
+    seo: score(lighthouse.categories?.seo)
+  };
+}
+
+function extractLabMetrics(lighthouse: any): LabMetrics {
+  const value = (id: string) => {
+    const numericValue = lighthouse.audits?.[id]?.numericValue;
+    return typeof numericValue === 'number' ? numericValue : null;
+  };
+
+  return {
+    lcp: value('largest-contentful-paint'),
+    fcp: value('first-contentful-paint'),
+    si: value('speed-index'),
+    tbt: value('total-blocking-time'),
+    cls: value('cumulative-layout-shift'),
+    ttfb: value('server-response-time')
+  };
+}
+
+const FIELD_CATEGORIES: Record<string, FieldMetric["category"]> = {
+  FAST: 'good',
+  AVERAGE: 'needs-improvement',
+  SLOW: 'poor'
+};
+
+const FIELD_METRICS: Record<keyof FieldData["metrics"], string> = {
+  lcp: 'LARGEST_CONTENTFUL_PAINT_MS',
+  inp: 'INTERACTION_TO_NEXT_PAINT',
+  cls: 'CUMULATIVE_LAYOUT_SHIFT_SCORE',
+  fcp: 'FIRST_CONTENTFUL_PAINT_MS',
+  ttfb: 'EXPERIMENTAL_TIME_TO_FIRST_BYTE'
+};
+
+function extractFieldData(experience: any): FieldData | undefined {
+  if (!experience?.metrics) {
+    return undefined;
+  }
+
+  const metrics: FieldData["metrics"] = {};
+  (Object.keys(FIELD_METRICS) as (keyof FieldData["metrics"])[]).forEach(key => {
+    const metric = experience.metrics[FIELD_METRICS[key]];
+    if (typeof metric?.percentile !== 'number' || !FIELD_CATEGORIES[metric.category]) return;
+
+    metrics[key] = {
+      // CrUX reports CLS multiplied by 100
+      percentile: key === 'cls' ? metric.percentile / 100 : metric.percentile,
+      category: FIELD_CATEGORIES[metric.category]
+    };
+  });
+
+  return {
+    overall: FIELD_CATEGORIES[experience.overall_category] || null,
+    metrics
+  };
+}
+
+// Failing performance audits, largest estimated savings first
+function extractOpportunities(lighthouse: any, strategy: 'desktop' | 'mobile'): LighthouseAudit[] {
+  const refs: any[] = lighthouse.categories?.performance?.auditRefs || [];
+
+  return refs
+    .filter(ref => ref.group !== 'metrics' && ref.group !== 'hidden')
+    .map(ref => lighthouse.audits?.[ref.id])
+    .filter(audit =>
+      audit &&
+      typeof audit.score === 'number' &&
+      audit.score < 0.9 &&
+      !['notApplicable', 'manual', 'error'].includes(audit.scoreDisplayMode)
+    )
+    .map(audit => {
+      // Older Lighthouse versions report overallSavingsMs, newer ones per-metric savings
+      const savingsMs = audit.details?.overallSavingsMs ??
+        Math.max(audit.metricSavings?.LCP || 0, audit.metricSavings?.FCP || 0);
+      const savingsBytes = audit.details?.overallSavingsBytes;
+      const isOpportunity = audit.details?.type === 'opportunity' || savingsMs > 0 || savingsBytes > 0;
+
+      const opportunity: LighthouseAudit = {
+        id: audit.id,
+        title: audit.title,
+        // Drop Lighthouse's markdown "Learn more" links
+        description: String(audit.description || '').replace(/\s*\[[^\]]*\]\([^)]*\)\.?/g, '').trim(),
+        type: isOpportunity ? 'opportunity' : 'diagnostic',
+        score: audit.score,
+        strategy
+      };
+      if (audit.displayValue) opportunity.displayValue = audit.displayValue;
+      if (savingsMs > 0) opportunity.savingsMs = Math.round(savingsMs);
+      if (savingsBytes > 0) opportunity.savingsBytes = Math.round(savingsBytes);
+      return opportunity;
+    })
+    .sort((a, b) => (b.savingsMs || 0) - (a.savingsMs || 0) || (b.savingsBytes || 0) - (a.savingsBytes || 0));
+}
@@ -0,0 +1,321 @@
+import * as cheerio from "cheerio";
+import type { MetaTagItem, StructuredDataEntity, StructuredDataResult } from "@shared/schema";
+import type { Analyzer, PageFetch } from "./types";
+import { assertHtmlPage } from "./context";
+
+type Format = StructuredDataEntity["format"];
+
+interface RawEntity {
+  format: Format;
+  type: string;
+  properties: Record<string, any>;
+  parseError?: string;
+}
+
+interface TypeRules {
+  // A nested array means any one of those properties satisfies the requirement
+  required: (string | string[])[];
+  recommended: string[];
+  validate?: (properties: Record<string, any>) => MetaTagItem[];
+}
+
+const ARTICLE_RULES: TypeRules = {
+  required: ['headline'],
+  recommended: ['author', 'datePublished', 'image']
+};
+
+const TYPE_RULES: Record<string, TypeRules> = {
+  Article: ARTICLE_RULES,
+  NewsArticle: ARTICLE_RULES,
+  BlogPosting: ARTICLE_RULES,
+  Product: {
+    required: ['name', ['offers', 'review', 'aggregateRating']],
+    recommended: ['image', 'description', 'brand']
+  },
+  Organization: {
+    required: ['name'],
+    recommended: ['url', 'logo']
+  },
+  BreadcrumbList: {
+    required: ['itemListElement'],
+    recommended: [],
+    validate: validateBreadcrumbs
+  },
+  FAQPage: {
+    required: ['mainEntity'],
+    recommended: [],
+    validate: validateFaq
+  },
+  LocalBusiness: {
+    required: ['name', 'address'],
+    recommended: ['telephone', 'openingHoursSpecification', 'geo', 'url']
+  }
+};
+
+export const structuredDataAnalyzer: Analyzer<StructuredDataResult> = {
+  id: "structuredData",
+  name: "Structured data analysis",
+  description: "JSON-LD, Microdata and RDFa extraction and validation",
+  category: "content",
+  run: async ({ page }) => analyzeStructuredData(await page()),
+
+  recommend(result) {
+    if (result.entities.length === 0) {
+      return [{
+        title: 'Add structured data',
+        description: 'No JSON-LD, Microdata or RDFa found; schema.org markup makes the page eligible for rich results',
+        priority: 'low',
+        category: 'structured data'
+      }];
+    }
+
+    return result.entities
+      .filter(entity => entity.status !== 'good')
+      .map(entity => {
+        const problems = entity.items.filter(item => item.status === entity.status);
+        return {
+          title: `${entity.status === 'error' ? 'Fix' : 'Improve'} ${entity.type} structured data`,
+          description: problems.map(item => item.description).join('; '),
+          priority: entity.status === 'error' ? 'high' : 'low',
+          category: 'structured data'
+        };
+      });
+  }
+};
+
+// Structured data analysis
+export function analyzeStructuredData(page: PageFetch): StructuredDataResult {
+  try {
+    assertHtmlPage(page);
+
+    const entities = extractStructuredData(page.$).map(validateEntity);
+    const items = entities.flatMap(entity => entity.items);
+    const countFormat = (format: Format) => entities.filter(entity => entity.format === format).length;
+
+    const summary = {
+      jsonLd: countFormat('json-ld'),
+      microdata: countFormat('microdata'),
+      rdfa: countFormat('rdfa'),
+      errors: items.filter(item => item.status === 'error').length,
+      warnings: items.filter(item => item.status === 'warning').length
+    };
+
+    let status: 'good' | 'warning' | 'error' = 'good';
+    if (entities.length === 0 || summary.warnings > 0) status = 'warning';
+    if (summary.errors > 0) status = 'error';
+
+    return { entities, summary, status };
+
+  } catch (error: any) {
+    throw new Error(`Structured data analysis failed: ${error.message}`);
+  }
+}
+
+export function extractStructuredData($: cheerio.CheerioAPI): RawEntity[] {
+  return [...extractJsonLd($), ...extractMicrodata($), ...extractRdfa($)];
+}
+
+function extractJsonLd($: cheerio.CheerioAPI): RawEntity[] {
+  const entities: RawEntity[] = [];
+
+  $('script[type="application/ld+json"]').each((_, element) => {
+    const source = $(element).contents().text().trim();
+    if (!source) return;
+
+    try {
+      flattenJsonLd(JSON.parse(source)).forEach(node => {
+        const { '@type': type, ...rest } = node;
+        const properties = Object.fromEntries(
+          Object.entries(rest).filter(([key]) => !key.startsWith('@'))
+        );
+        entities.push({ format: 'json-ld', type: normalizeType(type), properties });
+      });
+    } catch (error: any) {
+      entities.push({ format: 'json-ld', type: 'Unknown', properties: {}, parseError: error.message });
+    }
+  });
+
+  return entities;
+}
+
+// A block can hold a single node, an array of nodes or an @graph
+function flattenJsonLd(data: any): Record<string, any>[] {
+  if (Array.isArray(data)) {
+    return data.flatMap(flattenJsonLd);
+  }
+  if (data && typeof data === 'object') {
+    return Array.isArray(data['@graph']) ? data['@graph'].flatMap(flattenJsonLd) : [data];
+  }
+  return [];
+}
+
+function extractMicrodata($: cheerio.CheerioAPI): RawEntity[] {
+  // Only top-level items; nested ones become property values
+  return $('[itemscope]:not([itemprop])').toArray().map(element => ({
+    format: 'microdata' as const,
+    type: normalizeType($(element).attr('itemtype')),
+    properties: readMicrodataProperties($, element)
+  }));
+}
+
+function readMicrodataProperties($: cheerio.CheerioAPI, scope: any): Record<string, any> {
+  const properties: Record<string, any> = {};
+
+  $(scope).find('[itemprop]').each((_, element) => {
+    // Properties inside a nested item belong to that item
+    if ($(element).parent().closest('[itemscope]')[0] !== scope) return;
+
+    const $element = $(element);
+    const value = $element.is('[itemscope]')
+      ? { '@type': normalizeType($element.attr('itemtype')), ...readMicrodataProperties($, element) }
+      : readElementValue($element);
+
+    ($element.attr('itemprop') || '').split(/\s+/).filter(Boolean).forEach(name => {
+      addProperty(properties, name, value);
+    });
+  });
+
+  return properties;
+}
+
+function extractRdfa($: cheerio.CheerioAPI): RawEntity[] {
+  return $('[typeof]:not([property])').toArray().map(element => ({
+    format: 'rdfa' as const,
+    type: normalizeType($(element).attr('typeof')),
+    properties: readRdfaProperties($, element)
+  }));
+}
+
+function readRdfaProperties($: cheerio.CheerioAPI, scope: any): Record<string, any> {
+  const properties: Record<string, any> = {};
+
+  $(scope).find('[property]').each((_, element) => {
+    if ($(element).parent().closest('[typeof]')[0] !== scope) return;
+
+    const $element = $(element);
+    const value = $element.is('[typeof]')
+      ? { '@type': normalizeType($element.attr('typeof')), ...readRdfaProperties($, element) }
+      : readElementValue($element);
+
+    ($element.attr('property') || '').split(/\s+/).filter(Boolean).forEach(name => {
+      addProperty(properties, normalizeType(name), value);
+    });
+  });
+
+  return properties;
+}
+
+function readElementValue($element: cheerio.Cheerio<any>): string {
+  const value = $element.attr('content')
+    ?? $element.attr('href')
+    ?? $element.attr('src')
+    ?? $element.attr('datetime')
+    ?? $element.text();
+  return value.trim();
+}
+
+// Repeated properties collect into an array, as in JSON-LD
+function addProperty(properties: Record<string, any>, name: string, value: any): void {
+  if (!(name in properties)) {
+    properties[name] = value;
+  } else if (Array.isArray(properties[name])) {
+    properties[name].push(value);
+  } else {
+    properties[name] = [properties[name], value];
+  }
+}
+
+// "https://schema.org/Product", "schema:Product" and "Product" all become "Product"
+function normalizeType(type: unknown): string {
+  const first = Array.isArray(type) ? type[0] : typeof type === 'string' ? type.trim().split(/\s+/)[0] : '';
+  if (!first) return 'Unknown';
+  return String(first).replace(/^.*[/#:]/, '') || 'Unknown';
+}
+
+function validateEntity(entity: RawEntity): StructuredDataEntity {
+  const items: MetaTagItem[] = [];
+
+  if (entity.parseError) {
+    items.push({ name: 'JSON-LD', status: 'error', description: `Invalid JSON-LD: ${entity.parseError}` });
+  } else if (entity.type === 'Unknown') {
+    items.push({ name: '@type', status: 'error', description: 'Structured data item has no type' });
+  } else {
+    const rules = TYPE_RULES[entity.type];
+
+    if (!rules) {
+      items.push({ name: '@type', status: 'good', description: `${entity.type} found; no required properties are checked for this type`, value: entity.type });
+    } else {
+      rules.required.forEach(requirement => {
+        const names = Array.isArray(requirement) ? requirement : [requirement];
+        const present = names.find(name => hasValue(entity.properties[name]));
+        const label = names.join(' or ');
+
+        items.push(present
+          ? { name: present, status: 'good', description: `${present} is present`, value: describeValue(entity.properties[present]) }
+          : { name: label, status: 'error', description: `${entity.type} is missing required property ${label}` });
+      });
+
+      rules.recommended
+        .filter(name => !hasValue(entity.properties[name]))
+        .forEach(name => {
+          items.push({ name, status: 'warning', description: `${entity.type} is missing recommended property ${name}` });
+        });
+
+      items.push(...(rules.validate?.(entity.properties) || []));
+    }
+  }
+
+  const status = items.some(item => item.status === 'error') ? 'error'
+    : items.some(item => item.status === 'warning') ? 'warning' : 'good';
+
+  return { format: entity.format, type: entity.type, properties: entity.properties, items, status };
+}
+
+function validateBreadcrumbs(properties: Record<string, any>): MetaTagItem[] {
+  return toArray(properties.itemListElement).flatMap((element, index) => {
+    const items: MetaTagItem[] = [];
+    const name = `itemListElement[${index}]`;
+
+    if (!hasValue(element?.position)) {
+      items.push({ name: `${name}.position`, status: 'error', description: `Breadcrumb ${index + 1} is missing position` });
+    }
+    if (!hasValue(element?.name) && !hasValue(element?.item?.name)) {
+      items.push({ name: `${name}.name`, status: 'error', description: `Breadcrumb ${index + 1} is missing name` });
+    }
+    return items;
+  });
+}
+
+function validateFaq(properties: Record<string, any>): MetaTagItem[] {
+  return toArray(properties.mainEntity).flatMap((question, index) => {
+    const items: MetaTagItem[] = [];
+    const name = `mainEntity[${index}]`;
+
+    if (!hasValue(question?.name)) {
+      items.push({ name: `${name}.name`, status: 'error', description: `Question ${index + 1} is missing its name (the question text)` });
+    }
+    const answer = toArray(question?.acceptedAnswer)[0];
+    if (!hasValue(answer?.text)) {
+      items.push({ name: `${name}.acceptedAnswer`, status: 'error', description: `Question ${index + 1} is missing acceptedAnswer text` });
+    }
+    return items;
+  });
+}
+
+function toArray(value: any): any[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function hasValue(value: any): boolean {
+  if (Array.isArray(value)) return value.some(hasValue);
+  if (typeof value === 'string') return value.trim().length > 0;
+  return value !== undefined && value !== null;
+}
+
+function describeValue(value: any): string | undefined {
+  const first = Array.isArray(value) ? value[0] : value;
+  if (typeof first === 'string' || typeof first === 'number') return String(first).substring(0, 100);
+  if (first && typeof first === 'object') return first.name || first['@type'];
+  return undefined;
+}
@@ -0,0 +1,60 @@
+import type * as cheerio from "cheerio";
+import type { AuditResult, AuditSettings, Recommendation, RedirectHop, ScoreCategory } from "@shared/schema";
+
+// Score categories an analyzer can contribute to; `overall` is always derived
+export type { ScoreCategory };
+
+// The audited document, fetched once per audit and shared by every analyzer
+export interface PageFetch {
+  requestedUrl: string;
+  // URL after following redirects
+  finalUrl: string;
+  status: number;
+  redirects: {
+    hops: RedirectHop[];
+    loop: boolean;
+    exceeded: boolean;
+  };
+  headers: Record<string, string>;
+  html: string;
+  $: cheerio.CheerioAPI;
+  timing: {
+    startedAt: string;
+    durationMs: number;
+  };
+}
+
+// One scored check, before the scoring profile weights it
+export interface CheckOutcome {
+  // Stable within the analyzer; defaults to the label, lower-cased and hyphenated
+  id?: string;
+  label: string;
+  category: ScoreCategory;
+  status: 'good' | 'warning' | 'error';
+  // Measured 0-100 score, used instead of the status severity
+  value?: number;
+}
+
+export interface AnalyzerContext {
+  url: string;
+  // Thresholds from the audit profile, or the built-in defaults
+  settings: AuditSettings;
+  // Resolves to the same fetch no matter how many analyzers ask for it
+  page(): Promise<PageFetch>;
+  // Every distinct link on the page with its check result, also shared
+  checkedLinks(): Promise<any[]>;
+}
+
+export interface Analyzer<TResult = any> {
+  // Key of the result in AuditResult and the GET /api/<id> route
+  id: string;
+  name: string;
+  description: string;
+  category: ScoreCategory;
+  run(context: AnalyzerContext): Promise<TResult>;
+  // Checks the scoring profile weights into category scores
+  checks?(result: TResult): CheckOutcome[];
+  // True when the checks above are heuristics rather than measurements
+  estimated?(result: TResult): boolean;
+  recommend?(result: TResult, audit: Partial<AuditResult>): Recommendation[];
+}
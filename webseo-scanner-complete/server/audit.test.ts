@@ -0,0 +1,644 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createServer } from "http";
+import express from "express";
+import type { AuditEvent, AuditJob, AuditResult, BulkAudit, CrawlResult, StoredAudit } from "@shared/schema";
+import { registerRoutes } from "./routes";
+import { isBlockedAddress } from "./http";
+import { close, listen, startFixtureSite, type FixtureSite } from "./test/fixture-site";
+import { startPageSpeedStub, type PageSpeedStub } from "./test/pagespeed-stub";
+
+// Drives POST /api/audit end to end against local fixture sites, with PageSpeed served by the stub
+
+let api: string;
+let closeApi: () => Promise<void>;
+let pageSpeed: PageSpeedStub;
+let healthy: FixtureSite;
+let neglected: FixtureSite;
+
+async function startAudit(url: string, profile?: string): Promise<AuditJob> {
+  const response = await fetch(`${api}/api/audit`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ url, profile })
+  });
+  assert.equal(response.status, 202, await response.clone().text());
+  return response.json();
+}
+
+// Reads the job's event stream until the server closes it after the final event
+async function readEvents(job: AuditJob, lastEventId?: number): Promise<{ id: number; event: AuditEvent }[]> {
+  const response = await fetch(`${api}${job.eventsUrl}`, {
+    headers: lastEventId ? { "Last-Event-ID": String(lastEventId) } : {}
+  });
+  assert.equal(response.status, 200);
+  assert.match(response.headers.get("content-type") || "", /text\/event-stream/);
+
+  return (await response.text()).split("\n\n")
+    .filter(block => block.startsWith("id:"))
+    .map(block => {
+      const fields = Object.fromEntries(block.split("\n").map(line => [line.slice(0, line.indexOf(":")), line.slice(line.indexOf(":") + 2)]));
+      const event: AuditEvent = JSON.parse(fields.data);
+      assert.equal(fields.event, event.type);
+      return { id: Number(fields.id), event };
+    });
+}
+
+async function audit(url: string, profile?: string): Promise<StoredAudit> {
+  const events = await readEvents(await startAudit(url, profile));
+  const last = events[events.length - 1]?.event;
+  assert.equal(last?.type, "complete", JSON.stringify(last));
+  return (last as Extract<AuditEvent, { type: "complete" }>).audit as StoredAudit;
+}
+
+function findRecommendation(result: AuditResult, title: RegExp) {
+  return result.recommendations.find(recommendation => title.test(recommendation.title));
+}
+
+before(async () => {
+  const app = express();
+  app.use(express.json());
+  const server = await registerRoutes(app);
+  api = await listen(server);
+  closeApi = () => close(server);
+
+  [pageSpeed, healthy, neglected] = await Promise.all([
+    startPageSpeedStub(),
+    startFixtureSite("healthy"),
+    startFixtureSite("neglected")
+  ]);
+  process.env.PAGESPEED_API_URL = pageSpeed.endpoint;
+  // The fixture sites listen on loopback, which the outbound policy otherwise refuses
+  process.env.OUTBOUND_ALLOWED_HOSTS = "127.0.0.1";
+});
+
+after(async () => {
+  delete process.env.PAGESPEED_API_URL;
+  delete process.env.PAGESPEED_API_KEY;
+  delete process.env.OUTBOUND_ALLOWED_HOSTS;
+  await Promise.all([closeApi(), pageSpeed.close(), healthy.close(), neglected.close()]);
+});
+
+describe("POST /api/audit with a PageSpeed key", () => {
+  let result: StoredAudit;
+
+  before(async () => {
+    process.env.PAGESPEED_API_KEY = "test-key";
+    pageSpeed.requests.length = 0;
+    result = await audit(`${healthy.origin}/`);
+  });
+
+  after(() => {
+    delete process.env.PAGESPEED_API_KEY;
+  });
+
+  it("queries PageSpeed for both strategies with the key and all categories", () => {
+    assert.deepEqual(pageSpeed.requests.map(request => request.strategy).sort(), ["desktop", "mobile"]);
+    pageSpeed.requests.forEach(request => {
+      assert.equal(request.url, `${healthy.origin}/`);
+      assert.equal(request.key, "test-key");
+      assert.deepEqual(request.categories, ["PERFORMANCE", "ACCESSIBILITY", "BEST_PRACTICES", "SEO"]);
+    });
+  });
+
+  it("takes performance scores and lab data from the Lighthouse results", () => {
+    assert.ok(result.speed);
+    assert.equal(result.speed.estimated, undefined);
+    assert.equal(result.speed.performance?.score, 92);
+    assert.equal(result.speed.mobile?.score, 64);
+    assert.deepEqual(result.speed.categories?.mobile, { performance: 64, accessibility: 94, bestPractices: 100, seo: 91 });
+    assert.equal(result.speed.labMetrics?.mobile?.lcp, 4120);
+    assert.equal(result.speed.labMetrics?.mobile?.ttfb, 620);
+    assert.equal(result.estimatedScores, undefined);
+  });
+
+  it("reads URL and origin field data from the mobile run", () => {
+    const fieldData = result.speed?.fieldData;
+    assert.deepEqual(fieldData?.url?.metrics.inp, { percentile: 240, category: "needs-improvement" });
+    assert.deepEqual(fieldData?.url?.metrics.lcp, { percentile: 4300, category: "poor" });
+    assert.equal(fieldData?.origin?.metrics.cls?.percentile, 0.04);
+    assert.equal(result.speed?.coreWebVitals?.inp, "240 ms");
+    assert.equal(findRecommendation(result, /Largest Contentful Paint for real users/)?.priority, "high");
+  });
+
+  it("orders opportunities by savings and recommends the largest", () => {
+    const opportunities = result.speed?.opportunities || [];
+    assert.deepEqual(opportunities.map(opportunity => opportunity.id), ["render-blocking-resources", "unused-javascript"]);
+    assert.equal(findRecommendation(result, /render-blocking/)?.priority, "high");
+  });
+
+  it("finds nothing wrong with a well-kept site", () => {
+    assert.equal(result.links?.internal.broken, 0);
+    assert.equal(result.robots?.robotsTxt.found, true);
+    assert.deepEqual(result.robots?.robotsTxt.sitemaps, [`${healthy.origin}/sitemap.xml`]);
+    assert.equal(result.robots?.sitemap.urlCount, 3);
+    assert.deepEqual(result.robots?.sitemap.sample?.failures, []);
+    assert.equal(result.structuredData?.entities[0]?.type, "Organization");
+    assert.equal(result.errors, undefined);
+  });
+
+  it("explains every score with the checks behind it", () => {
+    const breakdown = result.scoreBreakdown;
+    assert.equal(breakdown?.profile, "default");
+    assert.equal(breakdown?.performance.score, result.scores.performance);
+    assert.deepEqual(breakdown?.performance.checks.map(check => [check.id, check.value]), [["speed.desktop", 92]]);
+    assert.ok(breakdown?.content.checks.some(check => check.id === "meta.title-tag" && check.status === "good"));
+  });
+
+  it("stores the audit", async () => {
+    assert.equal(typeof result.id, "number");
+    const response = await fetch(`${api}/api/audits/${result.id}`);
+    assert.equal(response.status, 200);
+    const stored: StoredAudit = await response.json();
+    assert.deepEqual(stored.scores, result.scores);
+    assert.equal(stored.speed?.performance?.score, 92);
+  });
+});
+
+describe("POST /api/audit when PageSpeed fails", () => {
+  let result: StoredAudit;
+
+  before(async () => {
+    process.env.PAGESPEED_API_KEY = "test-key";
+    pageSpeed.failWith = 500;
+    pageSpeed.requests.length = 0;
+    result = await audit(`${healthy.origin}/`);
+  });
+
+  after(() => {
+    delete process.env.PAGESPEED_API_KEY;
+    pageSpeed.failWith = undefined;
+  });
+
+  it("records the speed analyzer as failed", () => {
+    assert.equal(pageSpeed.requests.length, 2);
+    assert.equal(result.speed, undefined);
+    assert.ok(result.errors?.some(error => /Speed analysis failed: PageSpeed analysis failed: Backend error/.test(error)), JSON.stringify(result.errors));
+  });
+
+  it("penalises performance rather than leaving it out of the overall score", () => {
+    assert.deepEqual(result.scoreBreakdown?.performance.checks.map(check => [check.id, check.status]), [["speed.failed", "error"]]);
+    assert.equal(result.scores.performance, 0);
+  });
+});
+
+describe("POST /api/audit without a PageSpeed key", () => {
+  let result: StoredAudit;
+
+  before(async () => {
+    pageSpeed.requests.length = 0;
+    result = await audit(`${neglected.origin}/`);
+  });
+
+  it("estimates performance locally instead of calling PageSpeed", () => {
+    assert.equal(pageSpeed.requests.length, 0);
+    assert.equal(result.speed?.estimated, true);
+    assert.equal(result.speed?.local?.renderBlocking.scripts, 1);
+    assert.deepEqual([...(result.estimatedScores || [])].sort(), ["mobile", "performance"]);
+  });
+
+  it("reports the problems on a neglected site", () => {
+    assert.equal(result.links?.internal.broken, 2);
+    assert.equal(result.robots?.robotsTxt.found, false);
+    assert.equal(result.robots?.sitemap.found, false);
+    assert.ok(result.meta?.items.some(item => item.name === "Title Tag" && item.status === "error"));
+    assert.ok(findRecommendation(result, /broken internal links/));
+  });
+
+  it("scores the neglected site below the healthy one", async () => {
+    const healthyResult = await audit(`${healthy.origin}/`);
+    assert.ok(result.scores.technical < healthyResult.scores.technical);
+    assert.ok(result.scores.content < healthyResult.scores.content);
+  });
+});
+
+describe("audit job events", () => {
+  let job: AuditJob;
+  let events: { id: number; event: AuditEvent }[];
+
+  before(async () => {
+    job = await startAudit(`${neglected.origin}/`);
+    events = await readEvents(job);
+  });
+
+  it("returns a job right away", () => {
+    assert.equal(job.url, `${neglected.origin}/`);
+    assert.equal(job.status, "running");
+    assert.equal(job.eventsUrl, `/api/audits/${job.jobId}/events`);
+  });
+
+  it("streams every analyzer starting and finishing, then the stored audit", () => {
+    assert.deepEqual(events.map(({ id }) => id), events.map((_, index) => index + 1));
+
+    const [start, ...rest] = events.map(({ event }) => event);
+    assert.equal(start.type, "start");
+    const analyzers = start.type === "start" ? start.analyzers.map(analyzer => analyzer.id) : [];
+    assert.ok(analyzers.includes("meta") && analyzers.includes("speed"));
+
+    analyzers.forEach(id => {
+      const own = rest.filter(event => "analyzer" in event && event.analyzer === id).map(event => event.type);
+      assert.deepEqual(own, ["analyzer-start", "analyzer-done"], id);
+    });
+
+    const meta = rest.find(event => event.type === "analyzer-done" && event.analyzer === "meta");
+    assert.ok(meta?.type === "analyzer-done" && meta.checks.error > 0);
+
+    const complete = rest[rest.length - 1];
+    assert.equal(complete.type, "complete");
+    assert.equal(typeof (complete.type === "complete" && "id" in complete.audit ? complete.audit.id : undefined), "number");
+  });
+
+  it("replays a finished job after Last-Event-ID", async () => {
+    const replayed = await readEvents(job, events.length - 1);
+    assert.deepEqual(replayed, events.slice(-1));
+  });
+
+  it("404s for unknown jobs", async () => {
+    const response = await fetch(`${api}/api/audits/not-a-job/events`);
+    assert.equal(response.status, 404);
+  });
+});
+
+describe("bulk audits", () => {
+  let bulk: BulkAudit;
+
+  before(async () => {
+    const response = await fetch(`${api}/api/bulk-audits`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        csv: `client,url\r\n"Bakery, Leith",${healthy.origin}/\r\nOld site,${neglected.origin}/\r\nTypo,ftp://example.com/\r\nBakery again,${healthy.origin}/\r\n`
+      })
+    });
+    assert.equal(response.status, 202);
+    bulk = await response.json();
+
+    while (bulk.status === "running") {
+      await new Promise(resolve => setTimeout(resolve, 100));
+      bulk = await (await fetch(`${api}/api/bulk-audits/${bulk.id}`)).json();
+    }
+  });
+
+  it("audits each distinct URL from the url column", () => {
+    assert.deepEqual(bulk.items.map(item => [item.url, item.status]), [
+      [`${healthy.origin}/`, "complete"],
+      [`${neglected.origin}/`, "complete"],
+      ["ftp://example.com/", "failed"]
+    ]);
+    const [healthyItem, neglectedItem, invalid] = bulk.items;
+    assert.ok(healthyItem.scores!.overall > neglectedItem.scores!.overall);
+    assert.equal(typeof healthyItem.auditId, "number");
+    assert.equal(neglectedItem.topRecommendation?.priority, "high");
+    assert.match(invalid.error || "", /Only http and https/);
+  });
+
+  it("exports the results as CSV and JSON", async () => {
+    const csv = await fetch(`${api}/api/bulk-audits/${bulk.id}/export?format=csv`);
+    assert.match(csv.headers.get("content-type") || "", /text\/csv/);
+    assert.match(csv.headers.get("content-disposition") || "", /attachment; filename="bulk-audit-.*\.csv"/);
+    const lines = (await csv.text()).trim().split("\r\n");
+    assert.equal(lines[0], "url,status,overall,technical,content,performance,mobile,top_recommendation,priority,audit_id,error");
+    assert.equal(lines.length, 4);
+    assert.ok(lines[1].startsWith(`${healthy.origin}/,complete,${bulk.items[0].scores?.overall},`));
+
+    const json: BulkAudit = await (await fetch(`${api}/api/bulk-audits/${bulk.id}/export?format=json`)).json();
+    assert.deepEqual(json, bulk);
+  });
+
+  it("rejects an empty list", async () => {
+    const response = await fetch(`${api}/api/bulk-audits`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ urls: [" ", ""] })
+    });
+    assert.equal(response.status, 400);
+  });
+});
+
+describe("audit exports", () => {
+  let result: StoredAudit;
+
+  before(async () => {
+    result = await audit(`${neglected.origin}/`);
+  });
+
+  async function exportAs(format: string): Promise<Response> {
+    const response = await fetch(`${api}/api/audits/${result.id}/export?format=${format}`);
+    assert.equal(response.status, 200);
+    return response;
+  }
+
+  it("exports the scores and every finding as JSON", async () => {
+    const response = await exportAs("json");
+    assert.match(response.headers.get("content-disposition") || "", new RegExp(`attachment; filename="audit-${result.id}\\.json"`));
+    const json = await response.json();
+    assert.deepEqual(json.scores, result.scores);
+
+    const ids = json.findings.map((finding: { id: string }) => finding.id);
+    assert.ok(ids.includes("meta.title-tag"));
+    assert.ok(ids.includes("headers.cache-control"));
+    assert.ok(ids.includes("robots.sitemap"));
+    assert.ok(json.findings.some((finding: { source: string }) => finding.source === "recommendation"));
+    // Meta tag and header checks appear once, with their descriptions rather than the score check label
+    assert.equal(ids.filter((id: string) => id === "meta.title-tag").length, 1);
+  });
+
+  it("exports a row per score and finding as CSV", async () => {
+    const response = await exportAs("csv");
+    assert.match(response.headers.get("content-type") || "", /text\/csv/);
+    const lines = (await response.text()).trim().split("\r\n");
+    assert.equal(lines[0], "url,timestamp,source,id,category,name,status,priority,value,description");
+    assert.ok(lines[1].startsWith(`${neglected.origin}/,${result.timestamp},score,score.overall,overall,overall score,,,${result.scores.overall},`));
+    assert.ok(lines.some(line => line.includes(",meta,meta.title-tag,content,Title Tag,error,,,Missing title tag")));
+  });
+
+  it("fails JUnit test cases for errors", async () => {
+    const xml = await (await exportAs("junit")).text();
+    assert.match(xml, new RegExp(`<testsuite name="${neglected.origin}/ content" tests="\\d+" failures="\\d+"`));
+    assert.match(xml, /<testcase name="Title Tag" classname="meta.title-tag">\n\s+<failure message="Missing title tag">/);
+    assert.match(xml, /<testcase name="Canonical URL" classname="meta.canonical-url">\n\s+<system-out>Warning: /);
+  });
+
+  it("reports failing checks and recommendations as SARIF results", async () => {
+    const response = await exportAs("sarif");
+    assert.match(response.headers.get("content-type") || "", /application\/sarif\+json/);
+    const sarif = await response.json();
+    assert.equal(sarif.version, "2.1.0");
+
+    const [run] = sarif.runs;
+    const title = run.results.find((entry: { ruleId: string }) => entry.ruleId === "meta.title-tag");
+    assert.equal(title.level, "error");
+    assert.equal(run.tool.driver.rules[title.ruleIndex].id, "meta.title-tag");
+    assert.equal(title.locations[0].physicalLocation.artifactLocation.uri, `${neglected.origin}/`);
+    assert.ok(run.results.every((entry: { level: string }) => ["error", "warning", "note"].includes(entry.level)));
+    assert.ok(!run.results.some((entry: { ruleId: string }) => entry.ruleId === "speed.desktop"));
+  });
+
+  it("rejects unknown formats and audits", async () => {
+    assert.equal((await fetch(`${api}/api/audits/${result.id}/export?format=pdf`)).status, 400);
+    assert.equal((await fetch(`${api}/api/audits/999999/export`)).status, 404);
+  });
+});
+
+describe("POST /api/crawl", () => {
+  let apex: string;
+  let closeApex: () => Promise<void>;
+
+  before(async () => {
+    // A second hostname that sends everything to the healthy site, like example.com to www.example.com
+    const server = createServer((req, res) => {
+      res.writeHead(301, { Location: `${healthy.origin}${req.url}` });
+      res.end();
+    });
+    apex = await listen(server, 0, "127.0.0.2");
+    closeApex = () => close(server);
+    process.env.OUTBOUND_ALLOWED_HOSTS = "127.0.0.1,127.0.0.2";
+  });
+
+  after(async () => {
+    process.env.OUTBOUND_ALLOWED_HOSTS = "127.0.0.1";
+    await closeApex();
+  });
+
+  it("follows the site to the host its start page redirects to", async () => {
+    const response = await fetch(`${api}/api/crawl`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ url: `${apex}/`, maxPages: 10, maxDepth: 2 })
+    });
+    assert.equal(response.status, 200);
+    const crawl: CrawlResult = await response.json();
+
+    const [first, ...rest] = crawl.pages.map(page => page.url);
+    assert.equal(first, `${apex}/`);
+    assert.ok(rest.length >= 2, JSON.stringify(rest));
+    rest.forEach(url => assert.ok(url.startsWith(`${healthy.origin}/`), url));
+    assert.ok(rest.includes(`${healthy.origin}/about`));
+    // The start page already covered the home page it redirected to
+    assert.ok(!rest.includes(`${healthy.origin}/`), JSON.stringify(rest));
+    assert.equal(new Set(crawl.pages.map(page => page.url)).size, crawl.pages.length);
+  });
+
+  it("crawls a page once when another link redirects to it", async () => {
+    const server = createServer((req, res) => {
+      if (req.url === "/old") {
+        res.writeHead(301, { Location: "/new" });
+        res.end();
+        return;
+      }
+      res.writeHead(200, { "Content-Type": "text/html; charset=utf-8" });
+      res.end(req.url === "/"
+        ? '<title>Home</title><a href="/old">Old</a> <a href="/new">New</a>'
+        : "<title>New</title>");
+    });
+    const site = await listen(server);
+
+    try {
+      const response = await fetch(`${api}/api/crawl`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ url: `${site}/`, maxPages: 10, maxDepth: 2 })
+      });
+      assert.equal(response.status, 200);
+      const crawl: CrawlResult = await response.json();
+
+      assert.deepEqual(crawl.pages.map(page => page.url), [`${site}/`, `${site}/old`]);
+      assert.equal(crawl.totals.pagesCrawled, 2);
+    } finally {
+      await close(server);
+    }
+  });
+});
+
+describe("POST /api/audit validation", () => {
+  it("rejects a malformed URL", async () => {
+    const response = await fetch(`${api}/api/audit`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ url: "not a url" })
+    });
+    assert.equal(response.status, 400);
+  });
+});
+
+describe("outbound URL policy", () => {
+  async function expectRefused(response: Response, message: RegExp) {
+    assert.equal(response.status, 400);
+    assert.match((await response.json()).error, message);
+  }
+
+  const postAudit = (url: string) => fetch(`${api}/api/audit`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ url })
+  });
+
+  it("refuses private and reserved addresses", async () => {
+    await expectRefused(await postAudit("http://169.254.169.254/latest/meta-data/"), /private or reserved/);
+    await expectRefused(await postAudit("http://[::ffff:127.0.0.1]/"), /private or reserved/);
+    await expectRefused(await postAudit("http://localhost/"), /resolves to the private or reserved address/);
+    await expectRefused(await fetch(`${api}/api/meta?url=${encodeURIComponent("http://10.0.0.1/")}`), /private or reserved/);
+  });
+
+  it("refuses other schemes and ports", async () => {
+    await expectRefused(await postAudit("ftp://example.com/"), /Only http and https/);
+    await expectRefused(await postAudit("http://example.com:22/"), /Port 22 is not allowed/);
+    await expectRefused(await fetch(`${api}/api/headers?url=${encodeURIComponent("file:///etc/passwd")}`), /Only http and https/);
+  });
+
+  it("refuses a page that redirects to a private address", async () => {
+    const events = await readEvents(await startAudit(`${neglected.origin}/metadata`));
+    const last = events[events.length - 1].event;
+    assert.equal(last.type, "failed");
+    assert.match(last.type === "failed" ? last.error : "", /169\.254\.169\.254/);
+    await expectRefused(await fetch(`${api}/api/meta?url=${encodeURIComponent(`${neglected.origin}/metadata`)}`), /169\.254\.169\.254/);
+  });
+
+  it("classifies addresses", () => {
+    [
+      "127.0.0.1", "10.1.2.3", "172.20.0.1", "192.168.1.1", "100.64.0.1", "0.0.0.0", "::1", "fd00::1", "fe80::1", "::ffff:7f00:1",
+      // 127.0.0.1 through NAT64 and 6to4, and 10.0.0.1 through local-use NAT64
+      "64:ff9b::7f00:1", "2002:7f00:1::", "64:ff9b:1::a00:1"
+    ].forEach(address => assert.ok(isBlockedAddress(address), address));
+    ["93.184.216.34", "8.8.8.8", "2606:4700::1111"].forEach(address => assert.ok(!isBlockedAddress(address), address));
+  });
+});
+
+describe("audit profiles", () => {
+  it("runs only the enabled analyzers with the profile's thresholds", async () => {
+    const created = await fetch(`${api}/api/profiles`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        name: "brand",
+        settings: {
+          disabledAnalyzers: ["speed"],
+          title: { min: 60, max: 70 },
+          twitterCards: false,
+          securityHeaders: ["X-Frame-Options", "Cross-Origin-Opener-Policy"]
+        }
+      })
+    });
+    assert.equal(created.status, 201);
+
+    const result = await audit(`${healthy.origin}/`, "brand");
+    assert.equal(result.profile, "brand");
+    assert.equal(result.speed, undefined);
+    assert.equal(result.errors, undefined);
+    // Switched off rather than failed, so performance isn't scored at all
+    assert.equal(result.scoreBreakdown?.performance.score, null);
+
+    const title = result.meta?.items.find(item => item.name === "Title Tag");
+    assert.equal(title?.status, "warning");
+    assert.match(title?.description || "", /Recommended: 60-70 characters/);
+    assert.ok(!result.meta?.items.some(item => item.name === "Twitter Cards"));
+    assert.deepEqual(result.headers?.security.map(header => header.name), ["X-Frame-Options", "Cross-Origin-Opener-Policy"]);
+  });
+
+  it("rejects unknown profiles and analyzers", async () => {
+    const response = await fetch(`${api}/api/audit`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ url: `${healthy.origin}/`, profile: "missing" })
+    });
+    assert.equal(response.status, 400);
+
+    const created = await fetch(`${api}/api/profiles`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name: "typo", settings: { disabledAnalyzers: ["sped"] } })
+    });
+    assert.equal(created.status, 400);
+  });
+
+  it("keeps names unique and ignores an empty update", async () => {
+    const create = (name: string) => fetch(`${api}/api/profiles`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name, settings: {} })
+    });
+    const update = (id: number, changes: object) => fetch(`${api}/api/profiles/${id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(changes)
+    });
+
+    const first = await (await create("staging")).json();
+    const second = await (await create("production")).json();
+
+    const duplicate = await create("staging");
+    assert.equal(duplicate.status, 409);
+    assert.deepEqual(await duplicate.json(), { error: 'Audit profile "staging" already exists' });
+    const renamed = await update(second.id, { name: "staging" });
+    assert.equal(renamed.status, 409);
+    assert.deepEqual(await renamed.json(), { error: 'Audit profile "staging" already exists' });
+
+    const unchanged = await update(first.id, {});
+    assert.equal(unchanged.status, 200);
+    assert.deepEqual(await unchanged.json(), first);
+    assert.equal((await update(second.id + 1000, {})).status, 404);
+
+    await Promise.all([first, second].map(profile => fetch(`${api}/api/profiles/${profile.id}`, { method: "DELETE" })));
+  });
+});
+
+describe("schedules", () => {
+  it("returns the schedule unchanged for an empty update and 404 for an unknown one", async () => {
+    const created = await fetch(`${api}/api/schedules`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ url: `${healthy.origin}/`, frequency: "weekly" })
+    });
+    assert.equal(created.status, 201);
+    const schedule = await created.json();
+
+    const patch = (id: number) => fetch(`${api}/api/schedules/${id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: "{}"
+    });
+    const unchanged = await patch(schedule.id);
+    assert.equal(unchanged.status, 200);
+    assert.deepEqual(await unchanged.json(), schedule);
+    assert.equal((await patch(schedule.id + 1000)).status, 404);
+
+    await fetch(`${api}/api/schedules/${schedule.id}`, { method: "DELETE" });
+  });
+});
+
+describe("/api/scoring-profile", () => {
+  after(async () => {
+    await fetch(`${api}/api/scoring-profile`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name: "default" })
+    });
+  });
+
+  it("scores audits with a profile set through the API", async () => {
+    const update = await fetch(`${api}/api/scoring-profile`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name: "headers-only", categories: { content: 0, performance: 0, mobile: 0 }, checks: { "robots.*": 0 } })
+    });
+    assert.equal(update.status, 200);
+
+    const profile = await (await fetch(`${api}/api/scoring-profile`)).json();
+    assert.equal(profile.name, "headers-only");
+    assert.equal(profile.checks["meta.title-tag"], 3);
+
+    const result = await audit(`${healthy.origin}/`);
+    assert.equal(result.scoreBreakdown?.profile, "headers-only");
+    assert.equal(result.scores.overall, result.scores.technical);
+    assert.ok(result.scoreBreakdown?.technical.checks.every(check => check.analyzer === "headers"));
+  });
+
+  it("rejects an invalid profile", async () => {
+    const response = await fetch(`${api}/api/scoring-profile`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ severity: { warning: 2 } })
+    });
+    assert.equal(response.status, 400);
+  });
+});
@@ -0,0 +1,100 @@
+import { auditSettingsSchema, type AuditEvent, type AuditProfile, type AuditResult } from "@shared/schema";
+import { getAnalyzers, createAnalyzerContext, type Analyzer, type AnalyzerContext } from "./analyzers";
+import { calculateScores, findEstimatedScores, generateRecommendations } from "./scoring";
+import { BlockedUrlError } from "./http";
+
+export interface AuditOptions {
+  // A stored profile, or one read from a file by the CLI
+  profile?: Pick<AuditProfile, "name" | "settings">;
+  // Called as the audit starts and as each analyzer starts, finishes or fails
+  onProgress?: (event: AuditEvent) => void;
+}
+
+// Runs the registered analyzers against a URL and assembles the scored audit result
+export async function runAudit(url: string, { profile, onProgress }: AuditOptions = {}): Promise<AuditResult> {
+  // Stored settings may predate newer fields, which then take their defaults
+  const settings = profile ? auditSettingsSchema.parse(profile.settings) : undefined;
+  // A profile can switch analyzers off; those are left out rather than counted as failed
+  const analyzers = getAnalyzers().filter(analyzer => !settings?.disabledAnalyzers.includes(analyzer.id));
+  // The page is fetched once and shared between analyzers
+  const context = createAnalyzerContext(url, settings);
+
+  onProgress?.({
+    type: "start",
+    url,
+    profile: profile?.name,
+    analyzers: analyzers.map(({ id, name }) => ({ id, name }))
+  });
+
+  // Run all analyses in parallel
+  const outcomes = await Promise.allSettled(
+    analyzers.map(analyzer => runAnalyzer(analyzer, context, onProgress))
+  );
+
+  // A page that redirects somewhere off limits is refused outright rather than reported on
+  const blocked = outcomes.find(outcome => outcome.status === "rejected" && outcome.reason instanceof BlockedUrlError);
+  if (blocked) {
+    throw (blocked as PromiseRejectedResult).reason;
+  }
+
+  // Process results
+  const results: Partial<AuditResult> & Record<string, unknown> = {
+    url,
+    timestamp: new Date().toISOString()
+  };
+  if (profile) {
+    results.profile = profile.name;
+  }
+
+  const errors: string[] = [];
+  const failed: string[] = [];
+
+  outcomes.forEach((outcome, index) => {
+    const analyzer = analyzers[index];
+    if (outcome.status === "fulfilled") {
+      results[analyzer.id] = outcome.value;
+    } else {
+      errors.push(`${analyzer.name} failed: ${outcome.reason.message}`);
+      failed.push(analyzer.id);
+    }
+  });
+
+  // Calculate overall scores
+  const { scores, breakdown } = calculateScores(results, { failed });
+  results.scores = scores;
+  results.scoreBreakdown = breakdown;
+
+  const estimatedScores = findEstimatedScores(results);
+  if (estimatedScores.length > 0) {
+    results.estimatedScores = estimatedScores;
+  }
+
+  // Generate recommendations
+  results.recommendations = generateRecommendations(results);
+
+  if (errors.length > 0) {
+    results.errors = errors;
+  }
+
+  return results as AuditResult;
+}
+
+async function runAnalyzer<T>(
+  analyzer: Analyzer<T>,
+  context: AnalyzerContext,
+  onProgress?: (event: AuditEvent) => void
+): Promise<T> {
+  const started = Date.now();
+  onProgress?.({ type: "analyzer-start", analyzer: analyzer.id });
+
+  try {
+    const result = await analyzer.run(context);
+    const checks = { good: 0, warning: 0, error: 0 };
+    analyzer.checks?.(result).forEach(check => checks[check.status]++);
+    onProgress?.({ type: "analyzer-done", analyzer: analyzer.id, durationMs: Date.now() - started, result, checks });
+    return result;
+  } catch (error: any) {
+    onProgress?.({ type: "analyzer-failed", analyzer: analyzer.id, durationMs: Date.now() - started, error: error.message });
+    throw error;
+  }
+}
@@ -0,0 +1,85 @@
+import { randomUUID } from "crypto";
+import type { AuditProfile, BulkAudit, BulkAuditItem } from "@shared/schema";
+import { toCsv } from "./csv";
+import { assertPublicUrl } from "./http";
+import { startAuditJob, waitForAuditJob } from "./jobs";
+import { runPool } from "./pool";
+import { sortRecommendations } from "./scoring";
+
+export const BULK_AUDIT_MAX_URLS = 200;
+
+// Audits running at once per bulk audit; BULK_AUDIT_CONCURRENCY overrides it
+const DEFAULT_CONCURRENCY = 3;
+// Finished bulk audits stay downloadable this long
+const FINISHED_BULK_AUDIT_TTL_MS = 60 * 60 * 1000;
+
+const bulkAudits = new Map<string, BulkAudit>();
+
+// Queues the URLs as audit jobs, a few at a time; the returned object is updated as they finish
+export function startBulkAudit(urls: string[], profile?: AuditProfile): BulkAudit {
+  const bulk: BulkAudit = {
+    id: randomUUID(),
+    status: "running",
+    profile: profile?.name,
+    createdAt: new Date().toISOString(),
+    items: urls.map(url => ({ url, status: "queued" }))
+  };
+  bulkAudits.set(bulk.id, bulk);
+
+  const concurrency = Number(process.env.BULK_AUDIT_CONCURRENCY) || DEFAULT_CONCURRENCY;
+  runPool(bulk.items, concurrency, item => auditItem(item, profile)).then(() => {
+    bulk.status = "complete";
+    bulk.completedAt = new Date().toISOString();
+    setTimeout(() => bulkAudits.delete(bulk.id), FINISHED_BULK_AUDIT_TTL_MS).unref();
+  });
+
+  return bulk;
+}
+
+export function getBulkAudit(id: string): BulkAudit | undefined {
+  return bulkAudits.get(id);
+}
+
+// Runs one URL through the same job as POST /api/audit; failures stay on the row
+async function auditItem(item: BulkAuditItem, profile?: AuditProfile): Promise<void> {
+  item.status = "running";
+
+  try {
+    await assertPublicUrl(item.url);
+    const job = startAuditJob(item.url, profile);
+    item.jobId = job.jobId;
+
+    const outcome = await waitForAuditJob(job.jobId);
+    if (outcome.type === "failed") {
+      throw new Error(outcome.error);
+    }
+
+    const audit = outcome.audit;
+    item.status = "complete";
+    item.scores = audit.scores;
+    item.auditId = "id" in audit ? audit.id : undefined;
+    item.topRecommendation = sortRecommendations(audit.recommendations || [])[0];
+  } catch (error: any) {
+    item.status = "failed";
+    item.error = error.message || "Audit failed";
+  }
+}
+
+export function bulkAuditToCsv(bulk: BulkAudit): string {
+  return toCsv([
+    ["url", "status", "overall", "technical", "content", "performance", "mobile", "top_recommendation", "priority", "audit_id", "error"],
+    ...bulk.items.map(item => [
+      item.url,
+      item.status,
+      item.scores?.overall,
+      item.scores?.technical,
+      item.scores?.content,
+      item.scores?.performance,
+      item.scores?.mobile,
+      item.topRecommendation?.title,
+      item.topRecommendation?.priority,
+      item.auditId,
+      item.error
+    ])
+  ]);
+}
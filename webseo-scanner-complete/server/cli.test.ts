@@ -0,0 +1,113 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { EXIT_FAILED, EXIT_PASSED, EXIT_USAGE, runCli } from "./cli";
+import { startFixtureSite, type FixtureSite } from "./test/fixture-site";
+
+// Runs the CLI in-process against the local fixture sites; without a PageSpeed key, speed is estimated
+
+let healthy: FixtureSite;
+let neglected: FixtureSite;
+let tempDir: string;
+
+async function cli(...args: string[]): Promise<{ code: number; stdout: string; stderr: string }> {
+  let stdout = "";
+  let stderr = "";
+  const code = await runCli(args, {
+    stdout: text => stdout += text,
+    stderr: text => stderr += text
+  });
+  return { code, stdout, stderr };
+}
+
+before(async () => {
+  [healthy, neglected] = await Promise.all([startFixtureSite("healthy"), startFixtureSite("neglected")]);
+  tempDir = await mkdtemp(path.join(tmpdir(), "seo-audit-cli-"));
+});
+
+after(async () => {
+  delete process.env.OUTBOUND_ALLOWED_HOSTS;
+  await Promise.all([healthy.close(), neglected.close(), rm(tempDir, { recursive: true, force: true })]);
+});
+
+describe("seo-audit", () => {
+  it("passes when every score meets its minimum", async () => {
+    const { code, stdout } = await cli(`${healthy.origin}/`, "--min-overall", "50", "--min-content", "50");
+    assert.equal(code, EXIT_PASSED);
+    assert.match(stdout, new RegExp(`✔ ${healthy.origin}/`));
+    assert.match(stdout, /overall\s+\d+\s+\(min 50\)/);
+    assert.match(stdout, /1 of 1 URL passed/);
+  });
+
+  it("fails and reports the categories below their minimum as JSON", async () => {
+    const { code, stdout } = await cli(`${healthy.origin}/`, `${neglected.origin}/`, "--min-content", "75", "--format", "json");
+    assert.equal(code, EXIT_FAILED);
+
+    const report = JSON.parse(stdout);
+    assert.equal(report.passed, false);
+    assert.deepEqual(report.thresholds, { content: 75 });
+    const [healthyReport, neglectedReport] = report.results;
+    assert.equal(healthyReport.passed, true);
+    assert.equal(neglectedReport.passed, false);
+    assert.equal(neglectedReport.failures[0].category, "content");
+    assert.equal(neglectedReport.failures[0].score, neglectedReport.audit.scores.content);
+  });
+
+  it("reads URLs from a CSV file and writes JUnit XML", async () => {
+    const list = path.join(tempDir, "urls.csv");
+    const output = path.join(tempDir, "report.xml");
+    await writeFile(list, `page,url\nHome,${healthy.origin}/\nOld,${neglected.origin}/\n`);
+
+    const { code, stdout } = await cli("--file", list, "--format", "junit", "--output", output, "--min-overall", "75");
+    assert.equal(code, EXIT_FAILED);
+    assert.equal(stdout, "");
+
+    const xml = await readFile(output, "utf8");
+    assert.match(xml, /^<\?xml/);
+    assert.match(xml, /<testsuites name="seo-audit" tests="10" failures="1"/);
+    assert.equal(xml.match(/<testsuite /g)?.length, 2);
+    assert.match(xml, new RegExp(`<testsuite name="${neglected.origin}/" tests="5" failures="1"`));
+    assert.match(xml, /<failure message="overall score \d+ is below the minimum of 75">/);
+  });
+
+  it("applies an audit profile from a file", async () => {
+    const profile = path.join(tempDir, "profile.json");
+    await writeFile(profile, JSON.stringify({ name: "ci", settings: { disabledAnalyzers: ["speed", "links"] } }));
+
+    const { code, stdout } = await cli(`${healthy.origin}/`, "--profile", profile, "--format", "json");
+    assert.equal(code, EXIT_PASSED);
+    const { results: [result] } = JSON.parse(stdout);
+    assert.equal(result.audit.profile, "ci");
+    assert.equal(result.audit.speed, undefined);
+    assert.equal(result.audit.links, undefined);
+  });
+
+  it("skips the minimum of a category no check scored", async () => {
+    const profile = path.join(tempDir, "no-speed.json");
+    await writeFile(profile, JSON.stringify({ name: "no-speed", settings: { disabledAnalyzers: ["speed"] } }));
+
+    const { code, stdout, stderr } = await cli(`${healthy.origin}/`, "--profile", profile, "--min-performance", "50", "--format", "json");
+    assert.equal(code, EXIT_PASSED);
+    assert.match(stderr, /Warning: no checks scored performance for .*; skipping --min-performance/);
+
+    const { results: [result] } = JSON.parse(stdout);
+    assert.equal(result.audit.scores.performance, 0);
+    assert.deepEqual(result.skipped, ["performance"]);
+    assert.deepEqual(result.failures, []);
+  });
+
+  it("exits with a usage error for bad arguments", async () => {
+    assert.equal((await cli()).code, EXIT_USAGE);
+    assert.equal((await cli("example.com", "--min-overall", "high")).code, EXIT_USAGE);
+    assert.equal((await cli("example.com", "--format", "xml")).code, EXIT_USAGE);
+    assert.equal((await cli("example.com", "--unknown")).code, EXIT_USAGE);
+
+    const badProfile = path.join(tempDir, "bad-profile.json");
+    await writeFile(badProfile, JSON.stringify({ name: "ci", settings: { disabledAnalyzers: ["sped"] } }));
+    const { code, stderr } = await cli("example.com", "--profile", badProfile);
+    assert.equal(code, EXIT_USAGE);
+    assert.match(stderr, /Unknown analyzers: sped/);
+  });
+});
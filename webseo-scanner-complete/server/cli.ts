@@ -0,0 +1,294 @@
+#!/usr/bin/env node
+import "dotenv/config";
+import { realpathSync } from "fs";
+import { readFile, writeFile } from "fs/promises";
+import { fileURLToPath } from "url";
+import { parseArgs } from "util";
+import { insertAuditProfileSchema, scoreSchema, type AuditResult, type InsertAuditProfile } from "@shared/schema";
+import { assertKnownAnalyzers } from "./analyzers";
+import { runAudit } from "./audit";
+import { toJUnitXml } from "./junit";
+import { runPool } from "./pool";
+import { sortRecommendations } from "./scoring";
+import { getScoringProfile } from "./scoring-profile";
+import { normalizeUrls, parseUrlList } from "./url-list";
+
+type ScoreKey = keyof AuditResult["scores"];
+type OutputFormat = "text" | "json" | "junit";
+
+const SCORE_KEYS = Object.keys(scoreSchema.shape) as ScoreKey[];
+const FORMATS: OutputFormat[] = ["text", "json", "junit"];
+
+export const EXIT_PASSED = 0;
+export const EXIT_FAILED = 1;
+export const EXIT_USAGE = 2;
+
+const USAGE = `Usage: seo-audit [options] <url...>
+
+Runs the same analyzers as POST /api/audit against each URL and exits with 1 when an
+audit fails or a score is below its minimum.
+
+Options:
+  -f, --file <path>             Read URLs from a file, one per line or a CSV with a url column ("-" for stdin)
+      --format <format>         text (default), json or junit
+  -o, --output <path>           Write the report to a file instead of stdout
+${SCORE_KEYS.map(key => `      --min-${key} <score>`.padEnd(32) + `Fail when the ${key} score is below this (0-100)`).join("\n")}
+      --profile <path>          Audit profile JSON, as for POST /api/profiles ({ "name", "settings" })
+      --scoring-profile <path>  Scoring profile JSON (same as SCORING_PROFILE)
+      --concurrency <n>         Audits to run at once (default 2)
+  -h, --help                    Show this help
+
+A minimum for a category that no check scored, e.g. because its analyzers are disabled,
+is skipped with a warning.
+
+Hosts of the URLs given are exempt from the private-address checks, so local preview
+servers can be audited; set OUTBOUND_ALLOWED_HOSTS for anything else they link to.`;
+
+export interface CliIO {
+  stdout(text: string): void;
+  stderr(text: string): void;
+}
+
+interface ThresholdFailure {
+  category: ScoreKey;
+  score: number;
+  min: number;
+}
+
+interface UrlReport {
+  url: string;
+  passed: boolean;
+  failures: ThresholdFailure[];
+  // Categories with a minimum that no check scored, so the minimum was not applied
+  skipped: ScoreKey[];
+  audit?: AuditResult;
+  // Set when the audit itself could not run
+  error?: string;
+}
+
+class UsageError extends Error {}
+
+const processIO: CliIO = {
+  stdout: text => process.stdout.write(text),
+  stderr: text => process.stderr.write(text)
+};
+
+// Runs the CLI and resolves with its exit code; the report goes to stdout or --output
+export async function runCli(argv: string[], io: CliIO = processIO): Promise<number> {
+  try {
+    const { values, positionals } = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        file: { type: "string", short: "f" },
+        format: { type: "string", default: "text" },
+        output: { type: "string", short: "o" },
+        profile: { type: "string" },
+        "scoring-profile": { type: "string" },
+        concurrency: { type: "string", default: "2" },
+        help: { type: "boolean", short: "h" },
+        ...Object.fromEntries(SCORE_KEYS.map(key => [`min-${key}`, { type: "string" as const }]))
+      }
+    });
+
+    if (values.help) {
+      io.stdout(`${USAGE}\n`);
+      return EXIT_PASSED;
+    }
+
+    const format = values.format as OutputFormat;
+    if (!FORMATS.includes(format)) {
+      throw new UsageError(`Unknown format "${values.format}"; use ${FORMATS.join(", ")}`);
+    }
+
+    const thresholds: Partial<Record<ScoreKey, number>> = {};
+    SCORE_KEYS.forEach(key => {
+      const value = (values as Record<string, unknown>)[`min-${key}`];
+      if (typeof value === "string") {
+        thresholds[key] = parseNumber(value, `--min-${key}`, 0, 100);
+      }
+    });
+    const concurrency = parseNumber(String(values.concurrency), "--concurrency", 1, 20);
+
+    const listed = values.file ? parseUrlList(await readInput(values.file)) : [];
+    const urls = normalizeUrls([...positionals, ...listed]);
+    if (urls.length === 0) {
+      throw new UsageError("No URLs to audit");
+    }
+
+    allowHosts(urls);
+    const profile = values.profile ? await loadAuditProfile(values.profile) : undefined;
+    if (values["scoring-profile"]) {
+      process.env.SCORING_PROFILE = values["scoring-profile"];
+    }
+    // Fail before auditing anything when the scoring profile is invalid
+    getScoringProfile();
+
+    const reports = await runPool(urls, concurrency, async (url): Promise<UrlReport> => {
+      io.stderr(`Auditing ${url}\n`);
+      try {
+        const audit = await runAudit(url, { profile });
+        const skipped = findUnscored(audit).filter(category => thresholds[category] !== undefined);
+        skipped.forEach(category => io.stderr(`Warning: no checks scored ${category} for ${url}; skipping --min-${category}\n`));
+        const failures = findThresholdFailures(audit, thresholds, skipped);
+        return { url, passed: failures.length === 0, failures, skipped, audit };
+      } catch (error: any) {
+        return { url, passed: false, failures: [], skipped: [], error: error.message || "Audit failed" };
+      }
+    });
+
+    const report = formatReport(format, reports, thresholds);
+    if (values.output) {
+      await writeFile(values.output, report);
+    } else {
+      io.stdout(report);
+    }
+
+    return reports.every(report => report.passed) ? EXIT_PASSED : EXIT_FAILED;
+
+  } catch (error: any) {
+    io.stderr(`seo-audit: ${error.message}\n`);
+    // Bad arguments or config files, as opposed to pages that failed their audit
+    if (error instanceof UsageError || error.code?.startsWith?.("ERR_PARSE_ARGS")) {
+      io.stderr("Run seo-audit --help for usage.\n");
+    }
+    return EXIT_USAGE;
+  }
+}
+
+function parseNumber(value: string, option: string, min: number, max: number): number {
+  const number = Number(value);
+  if (value.trim() === "" || !Number.isFinite(number) || number < min || number > max) {
+    throw new UsageError(`${option} must be a number from ${min} to ${max}`);
+  }
+  return number;
+}
+
+function readInput(path: string): Promise<string> {
+  if (path !== "-") {
+    return readFile(path, "utf8");
+  }
+  return new Promise((resolve, reject) => {
+    let text = "";
+    process.stdin.setEncoding("utf8");
+    process.stdin.on("data", chunk => text += chunk);
+    process.stdin.on("end", () => resolve(text));
+    process.stdin.on("error", reject);
+  });
+}
+
+// The person running the CLI picked these URLs, unlike URLs submitted to the server
+function allowHosts(urls: string[]): void {
+  const hosts = urls.flatMap(url => {
+    try {
+      return [new URL(url).hostname];
+    } catch (error) {
+      return [];
+    }
+  });
+  const allowed = (process.env.OUTBOUND_ALLOWED_HOSTS || "").split(",").filter(Boolean);
+  process.env.OUTBOUND_ALLOWED_HOSTS = Array.from(new Set([...allowed, ...hosts])).join(",");
+}
+
+async function loadAuditProfile(path: string): Promise<InsertAuditProfile> {
+  try {
+    const profile = insertAuditProfileSchema.parse(JSON.parse(await readFile(path, "utf8")));
+    assertKnownAnalyzers(profile.settings.disabledAnalyzers);
+    return profile;
+  } catch (error: any) {
+    throw new UsageError(`Invalid audit profile ${path}: ${error.message}`);
+  }
+}
+
+// Unscored categories report 0, which would fail any minimum; overall is unscored when every category is
+function findUnscored(audit: AuditResult): ScoreKey[] {
+  const breakdown = audit.scoreBreakdown;
+  if (!breakdown) {
+    return [];
+  }
+  const unscored = SCORE_KEYS.filter(key => key !== "overall" && breakdown[key].score === null);
+  return unscored.length === SCORE_KEYS.length - 1 ? ["overall", ...unscored] : unscored;
+}
+
+function findThresholdFailures(audit: AuditResult, thresholds: Partial<Record<ScoreKey, number>>, skipped: ScoreKey[]): ThresholdFailure[] {
+  return SCORE_KEYS.flatMap(category => {
+    const min = thresholds[category];
+    const score = audit.scores[category];
+    return min !== undefined && !skipped.includes(category) && score < min ? [{ category, score, min }] : [];
+  });
+}
+
+function formatReport(format: OutputFormat, reports: UrlReport[], thresholds: Partial<Record<ScoreKey, number>>): string {
+  switch (format) {
+    case "json":
+      return JSON.stringify({ passed: reports.every(report => report.passed), thresholds, results: reports }, null, 2) + "\n";
+    case "junit":
+      return formatJUnit(reports, thresholds);
+    default:
+      return formatText(reports, thresholds);
+  }
+}
+
+function formatText(reports: UrlReport[], thresholds: Partial<Record<ScoreKey, number>>): string {
+  const lines: string[] = [];
+
+  reports.forEach(report => {
+    lines.push(`${report.passed ? "✔" : "✖"} ${report.url}`);
+
+    if (!report.audit) {
+      lines.push(`    Audit failed: ${report.error}`, "");
+      return;
+    }
+
+    const audit = report.audit;
+    SCORE_KEYS.forEach(key => {
+      const min = thresholds[key];
+      const notes = [
+        min !== undefined && (report.skipped.includes(key) ? `not scored, min ${min} skipped` : audit.scores[key] < min ? `below ${min}` : `min ${min}`),
+        audit.estimatedScores?.some(category => category === key) && "estimated"
+      ].filter(Boolean);
+      lines.push(`    ${key.padEnd(12)} ${String(audit.scores[key]).padStart(3)}${notes.length > 0 ? `  (${notes.join(", ")})` : ""}`);
+    });
+
+    const recommendations = sortRecommendations(audit.recommendations || []).slice(0, 3);
+    if (recommendations.length > 0) {
+      lines.push("    Top recommendations:");
+      recommendations.forEach(recommendation => lines.push(`      - [${recommendation.priority}] ${recommendation.title}`));
+    }
+    (audit.errors || []).forEach(error => lines.push(`    Warning: ${error}`));
+    lines.push("");
+  });
+
+  const passed = reports.filter(report => report.passed).length;
+  lines.push(`${passed} of ${reports.length} URL${reports.length === 1 ? "" : "s"} passed`);
+  return lines.join("\n") + "\n";
+}
+
+// One suite per URL with a test case per score, failing when it is below its minimum
+function formatJUnit(reports: UrlReport[], thresholds: Partial<Record<ScoreKey, number>>): string {
+  return toJUnitXml(reports.map(report => ({
+    name: report.url,
+    timestamp: report.audit?.timestamp,
+    tests: report.audit
+      ? SCORE_KEYS.map(key => {
+          const score = report.audit!.scores[key];
+          const failure = report.failures.find(failure => failure.category === key);
+          return {
+            name: `${key} score`,
+            classname: report.url,
+            output: `${key}: ${score}${thresholds[key] !== undefined ? ` (min ${thresholds[key]})` : ""}`,
+            ...(failure && { failure: { message: `${key} score ${score} is below the minimum of ${failure.min}` } }),
+            ...(report.skipped.includes(key) && { skipped: `No checks scored ${key}` })
+          };
+        })
+      : [{ name: "audit", classname: report.url, failure: { message: report.error || "Audit failed" } }]
+  })));
+}
+
+// `tsx server/cli.ts` or the seo-audit bin; realpath because npm links bins into node_modules/.bin
+if (process.argv[1] && realpathSync(process.argv[1]) === fileURLToPath(import.meta.url)) {
+  runCli(process.argv.slice(2)).then(code => {
+    // Exit once the report has been flushed; idle keep-alive sockets would otherwise hold the process open
+    process.stdout.write("", () => process.exit(code));
+  });
+}
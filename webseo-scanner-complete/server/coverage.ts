@@ -0,0 +1,109 @@
+import type { CrawlCoverage } from "@shared/schema";
+import type { PageFetch } from "./analyzers/types";
+import { fetchPage } from "./analyzers/context";
+import type { SitemapCollection } from "./sitemap";
+
+// Sitemap URLs the crawl didn't reach that are fetched to check indexability
+const COVERAGE_CHECK_LIMIT = 25;
+// Cap on listed orphan URLs; orphanCount still covers all of them
+const MAX_REPORTED_ORPHANS = 500;
+
+export interface PageIndexability {
+  indexable: boolean;
+  redirectedTo?: string;
+  noindex: boolean;
+  // Set only when the canonical points at a different URL
+  canonical?: string;
+}
+
+// Whether search engines would index the fetched URL as itself
+export function getIndexability(page: PageFetch): PageIndexability {
+  const redirected = page.redirects.hops.some(hop => hop.location);
+  const contentType = page.headers['content-type'] || '';
+
+  const robotsMeta = page.$('meta[name="robots"], meta[name="googlebot"]')
+    .map((_, element) => page.$(element).attr('content') || '')
+    .get()
+    .join(',');
+  const noindex = /noindex/i.test(robotsMeta) || /noindex/i.test(page.headers['x-robots-tag'] || '');
+
+  let canonical: string | undefined;
+  const canonicalHref = page.$('link[rel="canonical"]').attr('href');
+  if (canonicalHref) {
+    try {
+      const resolved = normalizeUrl(new URL(canonicalHref, page.finalUrl).href);
+      if (resolved !== normalizeUrl(page.finalUrl)) canonical = resolved;
+    } catch (error) {
+      // Invalid canonical URL; the meta analysis reports it
+    }
+  }
+
+  return {
+    indexable: page.status === 200 && contentType.includes('html') && !redirected && !noindex && !canonical,
+    redirectedTo: redirected ? page.finalUrl : undefined,
+    noindex,
+    canonical
+  };
+}
+
+// Compares the sitemap with what the crawl found linked and indexable
+export async function analyzeCoverage(
+  sitemap: SitemapCollection,
+  hostname: string,
+  linkedUrls: Set<string>,
+  crawled: Map<string, PageIndexability | undefined>
+): Promise<CrawlCoverage> {
+  const sitemapUrls = Array.from(new Set(
+    sitemap.urls
+      .filter(entry => new URL(entry.loc).hostname === hostname)
+      .map(entry => normalizeUrl(entry.loc))
+  ));
+  const inSitemap = new Set(sitemapUrls);
+
+  const orphanUrls = sitemapUrls.filter(url => !linkedUrls.has(url));
+
+  const missingFromSitemap = Array.from(crawled.entries())
+    .filter(([url, indexability]) => indexability?.indexable && !inSitemap.has(url))
+    .map(([url]) => url);
+
+  // Crawled pages are already known; fetch a bounded number of the rest
+  const indexability = new Map<string, PageIndexability>();
+  let checked = 0;
+  for (const url of sitemapUrls) {
+    const known = crawled.get(url);
+    if (known) {
+      indexability.set(url, known);
+    } else if (!crawled.has(url) && checked < COVERAGE_CHECK_LIMIT) {
+      checked++;
+      try {
+        indexability.set(url, getIndexability(await fetchPage(url)));
+      } catch (error) {
+        // Unreachable URLs are covered by the sitemap sample check
+      }
+    }
+  }
+
+  const entries = Array.from(indexability.entries());
+
+  return {
+    sitemapUrls: sitemapUrls.length,
+    linkedUrls: linkedUrls.size,
+    checkedSitemapUrls: indexability.size,
+    orphanUrls: orphanUrls.slice(0, MAX_REPORTED_ORPHANS),
+    orphanCount: orphanUrls.length,
+    missingFromSitemap,
+    noindexed: entries.filter(([, page]) => page.noindex).map(([url]) => url),
+    redirected: entries
+      .filter(([, page]) => page.redirectedTo)
+      .map(([url, page]) => ({ url, target: page.redirectedTo! })),
+    canonicalised: entries
+      .filter(([, page]) => page.canonical)
+      .map(([url, page]) => ({ url, canonical: page.canonical! }))
+  };
+}
+
+function normalizeUrl(url: string): string {
+  const normalized = new URL(url);
+  normalized.hash = '';
+  return normalized.href;
+}
@@ -0,0 +1,207 @@
+import { URL } from "url";
+import type { CrawlPage, CrawlResult } from "@shared/schema";
+import { extractMetaItems } from "./analyzers/meta";
+import { extractLinks } from "./analyzers/links";
+import { analyzeSecurityHeaders, analyzeCachingHeaders } from "./analyzers/headers";
+import { fetchPage } from "./analyzers/context";
+import { loadRobotsTxt } from "./analyzers/robots";
+import { ROBOTS_USER_AGENTS, isAllowed, type RobotsTxt } from "./robots-txt";
+import { loadSitemaps } from "./sitemap";
+import { analyzeCoverage, getIndexability, type PageIndexability } from "./coverage";
+import { calculateScores, generateRecommendations } from "./scoring";
+
+export interface CrawlOptions {
+  maxPages: number;
+  maxDepth: number;
+}
+
+interface QueuedPage {
+  url: string;
+  depth: number;
+}
+
+// Resources that are linked like pages but never contain HTML worth auditing
+const NON_HTML_EXTENSIONS = /\.(jpe?g|png|gif|svg|webp|ico|pdf|zip|gz|mp3|mp4|avi|mov|css|js|json|xml|txt|woff2?|ttf|eot)$/i;
+
+// Breadth-first crawl of a site starting from the given URL
+export async function crawlSite(startUrl: string, options: CrawlOptions): Promise<CrawlResult> {
+  const start = new URL(startUrl);
+  const queue: QueuedPage[] = [{ url: normalizeUrl(start), depth: 0 }];
+  const seen = new Set<string>([queue[0].url]);
+  // The start page is the entry point, so it never counts as an orphan
+  const linked = new Set<string>([queue[0].url]);
+  const pages: CrawlPage[] = [];
+  const indexability = new Map<string, PageIndexability | undefined>();
+  // Where crawled pages ended up after redirects, so each page is only reported once
+  const crawled = new Set<string>();
+  // The crawl stays on the host the start page ends up on, e.g. www.example.com when example.com redirects there
+  let site = start;
+  let robots = await loadRobotsTxt(site.origin);
+
+  while (queue.length > 0 && pages.length < options.maxPages) {
+    const next = queue.shift()!;
+    const { page, links, indexable, finalUrl } = await crawlPage(next, robots);
+    const landedOn = finalUrl ? normalizeUrl(new URL(finalUrl)) : next.url;
+    if (crawled.has(landedOn)) {
+      continue;
+    }
+    crawled.add(landedOn);
+    seen.add(landedOn);
+    linked.add(landedOn);
+    pages.push(page);
+    indexability.set(next.url, indexable);
+    indexability.set(landedOn, indexable);
+
+    if (pages.length === 1 && finalUrl && new URL(finalUrl).hostname !== site.hostname) {
+      site = new URL(finalUrl);
+      robots = await loadRobotsTxt(site.origin);
+    }
+
+    links.forEach(link => {
+      try {
+        const linkUrl = new URL(link);
+        if (linkUrl.hostname !== site.hostname) {
+          return;
+        }
+
+        const normalized = normalizeUrl(linkUrl);
+        linked.add(normalized);
+
+        if (next.depth >= options.maxDepth || NON_HTML_EXTENSIONS.test(linkUrl.pathname)) {
+          return;
+        }
+        if (!seen.has(normalized)) {
+          seen.add(normalized);
+          queue.push({ url: normalized, depth: next.depth + 1 });
+        }
+      } catch (error) {
+        // Invalid URL
+      }
+    });
+  }
+
+  // Links from every crawled page count, including to pages the limits kept from being crawled
+  const sitemapUrls = robots?.sitemaps.length ? robots.sitemaps : [new URL('/sitemap.xml', site.origin).href];
+  const coverage = await analyzeCoverage(await loadSitemaps(sitemapUrls), site.hostname, linked, indexability);
+
+  return {
+    url: startUrl,
+    timestamp: new Date().toISOString(),
+    maxPages: options.maxPages,
+    maxDepth: options.maxDepth,
+    pages,
+    coverage,
+    totals: calculateTotals(pages)
+  };
+}
+
+// Fetches a single page and runs the per-page meta and header checks on it
+async function crawlPage(
+  { url, depth }: QueuedPage,
+  robots?: RobotsTxt
+): Promise<{ page: CrawlPage; links: string[]; indexable?: PageIndexability; finalUrl?: string }> {
+  const page: Partial<CrawlPage> = {
+    url,
+    depth,
+    timestamp: new Date().toISOString(),
+    internalLinks: 0
+  };
+
+  // Blocked pages are still crawled so the report shows what search engines miss
+  if (robots) {
+    const blockedFor = ROBOTS_USER_AGENTS.filter(userAgent => !isAllowed(robots, userAgent, url).allowed);
+    if (blockedFor.length > 0) page.blockedFor = blockedFor;
+  }
+  let links: string[] = [];
+  let indexable: PageIndexability | undefined;
+  let finalUrl: string | undefined;
+
+  try {
+    const fetched = await fetchPage(url);
+    indexable = getIndexability(fetched);
+    finalUrl = fetched.finalUrl;
+
+    page.statusCode = fetched.status;
+    page.headers = {
+      security: analyzeSecurityHeaders(fetched.headers),
+      caching: analyzeCachingHeaders(fetched.headers)
+    };
+
+    const contentType = fetched.headers['content-type'] || '';
+    if (fetched.status >= 400) {
+      page.errors = [`HTTP ${fetched.status}`];
+    } else if (!contentType.includes('html')) {
+      page.errors = [`Skipped non-HTML content (${contentType || 'unknown content type'})`];
+    } else {
+      const { internal } = extractLinks(fetched.$, new URL(fetched.finalUrl));
+
+      page.meta = { items: extractMetaItems(fetched.$, fetched.finalUrl) };
+      page.internalLinks = internal.length;
+      links = internal.map(link => link.fullUrl);
+    }
+  } catch (error: any) {
+    page.errors = [`Page fetch failed: ${error.message}`];
+  }
+
+  page.scores = calculateScores(page).scores;
+  page.recommendations = generateRecommendations(page);
+
+  return { page: page as CrawlPage, links, indexable, finalUrl };
+}
+
+function calculateTotals(pages: CrawlPage[]): CrawlResult["totals"] {
+  const succeeded = pages.filter(page => page.meta);
+  const countStatus = (items: { status: string }[], status: string) =>
+    items.filter(item => item.status === status).length;
+
+  const metaItems = succeeded.flatMap(page => page.meta!.items);
+  const headerItems = pages.flatMap(page => page.headers?.security || []);
+
+  const averageScores = { overall: 0, technical: 0, content: 0, performance: 0, mobile: 0 };
+  if (succeeded.length > 0) {
+    (Object.keys(averageScores) as (keyof typeof averageScores)[]).forEach(key => {
+      const total = succeeded.reduce((acc, page) => acc + page.scores[key], 0);
+      averageScores[key] = Math.round(total / succeeded.length);
+    });
+  }
+
+  return {
+    pagesCrawled: pages.length,
+    pagesFailed: pages.length - succeeded.length,
+    maxDepthReached: pages.reduce((max, page) => Math.max(max, page.depth), 0),
+    blockedPages: pages.filter(page => page.blockedFor).length,
+    averageScores,
+    metaIssues: {
+      warning: countStatus(metaItems, 'warning'),
+      error: countStatus(metaItems, 'error')
+    },
+    headerIssues: {
+      warning: countStatus(headerItems, 'warning'),
+      error: countStatus(headerItems, 'error')
+    },
+    duplicateTitles: findDuplicates(succeeded, 'Title Tag'),
+    duplicateDescriptions: findDuplicates(succeeded, 'Meta Description')
+  };
+}
+
+// Returns meta values that appear on more than one crawled page
+function findDuplicates(pages: CrawlPage[], itemName: string): string[] {
+  const counts = new Map<string, number>();
+
+  pages.forEach(page => {
+    const value = page.meta?.items.find(item => item.name === itemName)?.value;
+    if (value) {
+      counts.set(value, (counts.get(value) || 0) + 1);
+    }
+  });
+
+  return Array.from(counts.entries())
+    .filter(([, count]) => count > 1)
+    .map(([value]) => value);
+}
+
+function normalizeUrl(url: URL): string {
+  const normalized = new URL(url.href);
+  normalized.hash = '';
+  return normalized.href;
+}
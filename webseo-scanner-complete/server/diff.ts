@@ -0,0 +1,104 @@
+import type { AuditDiff, MetaTagItem, Recommendation, StoredAudit } from "@shared/schema";
+
+const STATUS_RANK: Record<MetaTagItem['status'], number> = {
+  good: 0,
+  warning: 1,
+  error: 2
+};
+
+// Compares two stored audits, treating `base` as the earlier run
+export function diffAudits(base: StoredAudit, current: StoredAudit): AuditDiff {
+  const scores = {} as AuditDiff['scores'];
+  (Object.keys(current.scores) as (keyof AuditDiff['scores'])[]).forEach(key => {
+    const before = base.scores[key];
+    const after = current.scores[key];
+    scores[key] = { before, after, delta: after - before };
+  });
+
+  const metaChanges = diffMetaItems(base.meta?.items || [], current.meta?.items || []);
+  const newlyBrokenLinks = diffBrokenLinks(base, current);
+  const removedHeaders = diffHeaders(base, current);
+  const recommendations = diffRecommendations(base.recommendations || [], current.recommendations || []);
+
+  const regressions =
+    Object.values(scores).filter(score => score.delta < 0).length +
+    metaChanges.filter(change => change.regression).length +
+    newlyBrokenLinks.length +
+    removedHeaders.length;
+
+  return {
+    base: { id: base.id, url: base.url, timestamp: base.timestamp },
+    current: { id: current.id, url: current.url, timestamp: current.timestamp },
+    scores,
+    metaChanges,
+    newlyBrokenLinks,
+    removedHeaders,
+    recommendations,
+    regressions
+  };
+}
+
+function diffMetaItems(baseItems: MetaTagItem[], currentItems: MetaTagItem[]): AuditDiff['metaChanges'] {
+  const names = Array.from(new Set([...baseItems, ...currentItems].map(item => item.name)));
+
+  return names.flatMap(name => {
+    const before = baseItems.find(item => item.name === name);
+    const after = currentItems.find(item => item.name === name);
+
+    if (before?.status === after?.status) {
+      return [];
+    }
+
+    return [{
+      name,
+      before: before?.status ?? null,
+      after: after?.status ?? null,
+      description: (after || before)!.description,
+      regression: !!after && STATUS_RANK[after.status] > STATUS_RANK[before?.status ?? 'good']
+    }];
+  });
+}
+
+function diffBrokenLinks(base: StoredAudit, current: StoredAudit): AuditDiff['newlyBrokenLinks'] {
+  const brokenBefore = new Set(
+    collectLinks(base).filter(link => link.status === 'broken').map(link => link.fullUrl || link.href)
+  );
+
+  return collectLinks(current)
+    .filter(link => link.status === 'broken' && !brokenBefore.has(link.fullUrl || link.href))
+    .map(link => ({
+      url: link.fullUrl || link.href,
+      text: link.text || '',
+      type: link.type || 'internal',
+      statusCode: link.statusCode ?? null
+    }));
+}
+
+function collectLinks(audit: StoredAudit): any[] {
+  if (!audit.links) {
+    return [];
+  }
+  return [...audit.links.internal.links, ...audit.links.external.links];
+}
+
+// Headers that were sent in the base run but are missing from the current one
+function diffHeaders(base: StoredAudit, current: StoredAudit): AuditDiff['removedHeaders'] {
+  const headerItems = (audit: StoredAudit) =>
+    [...(audit.headers?.security || []), ...(audit.headers?.caching || [])];
+
+  const currentValues = new Map(headerItems(current).map(header => [header.name, header.value]));
+
+  return headerItems(base)
+    .filter(header => header.value && !currentValues.get(header.name))
+    .map(header => ({ name: header.name, value: header.value }));
+}
+
+function diffRecommendations(baseRecs: Recommendation[], currentRecs: Recommendation[]): AuditDiff['recommendations'] {
+  const baseTitles = new Set(baseRecs.map(rec => rec.title));
+  const currentTitles = new Set(currentRecs.map(rec => rec.title));
+
+  return {
+    added: currentRecs.filter(rec => !baseTitles.has(rec.title)),
+    resolved: baseRecs.filter(rec => !currentTitles.has(rec.title))
+  };
+}
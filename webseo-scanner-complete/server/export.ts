@@ -0,0 +1,185 @@
+import type { MetaTagItem, Recommendation, StoredAudit } from "@shared/schema";
+import { getAnalyzer } from "./analyzers";
+import { toCsv } from "./csv";
+import { toJUnitXml, type JUnitTestCase } from "./junit";
+import { toCheckId } from "./scoring";
+
+export type AuditExportFormat = "json" | "csv" | "junit" | "sarif";
+
+export const AUDIT_EXPORT_FORMATS: AuditExportFormat[] = ["json", "csv", "junit", "sarif"];
+
+// One row of an export: an itemised meta tag or header check, a score check, or a recommendation
+export interface AuditFinding {
+  source: "meta" | "header" | "check" | "recommendation";
+  // Same ids as the score breakdown, e.g. meta.title-tag or headers.x-frame-options
+  id: string;
+  category: string;
+  name: string;
+  status?: MetaTagItem["status"];
+  priority?: Recommendation["priority"];
+  value?: string;
+  description: string;
+}
+
+const SCORE_KEYS = ["overall", "technical", "content", "performance", "mobile"] as const;
+const CATEGORIES = ["technical", "content", "performance", "mobile"] as const;
+
+const EXPORTS: Record<AuditExportFormat, { contentType: string; extension: string; render(audit: StoredAudit): string }> = {
+  json: { contentType: "application/json", extension: "json", render: audit => JSON.stringify(auditToJson(audit), null, 2) },
+  csv: { contentType: "text/csv", extension: "csv", render: auditToCsv },
+  junit: { contentType: "application/xml", extension: "xml", render: auditToJUnit },
+  sarif: { contentType: "application/sarif+json", extension: "sarif", render: audit => JSON.stringify(auditToSarif(audit), null, 2) }
+};
+
+export function exportAudit(audit: StoredAudit, format: AuditExportFormat): { body: string; contentType: string; filename: string } {
+  const { contentType, extension, render } = EXPORTS[format];
+  return { body: render(audit), contentType, filename: `audit-${audit.id}.${extension}` };
+}
+
+// Meta tag and header checks keep their descriptions and values; the score breakdown
+// only adds the checks of analyzers that don't itemise their results
+export function collectFindings(audit: StoredAudit): AuditFinding[] {
+  const metaCategory = getAnalyzer("meta")?.category ?? "content";
+  const headersCategory = getAnalyzer("headers")?.category ?? "technical";
+
+  const findings: AuditFinding[] = [
+    ...(audit.meta?.items || []).map(item => ({
+      source: "meta" as const,
+      id: `meta.${toCheckId(item.name)}`,
+      category: metaCategory,
+      name: item.name,
+      status: item.status,
+      value: item.value,
+      description: item.description
+    })),
+    ...[...(audit.headers?.security || []), ...(audit.headers?.caching || [])].map(header => ({
+      source: "header" as const,
+      id: `headers.${toCheckId(header.name)}`,
+      category: headersCategory,
+      name: header.name,
+      status: header.status,
+      value: header.value,
+      description: header.description
+    }))
+  ];
+
+  const itemised = new Set(findings.map(finding => finding.id));
+  if (audit.scoreBreakdown) {
+    CATEGORIES.forEach(category => {
+      audit.scoreBreakdown![category].checks
+        .filter(check => !itemised.has(check.id))
+        .forEach(check => findings.push({
+          source: "check",
+          id: check.id,
+          category,
+          name: check.label,
+          status: check.status,
+          value: check.value !== undefined ? String(check.value) : undefined,
+          description: check.value !== undefined ? `${check.label}: ${check.value}` : check.label
+        }));
+    });
+  }
+
+  (audit.recommendations || []).forEach(recommendation => findings.push({
+    source: "recommendation",
+    id: `recommendation.${toCheckId(recommendation.title)}`,
+    category: recommendation.category,
+    name: recommendation.title,
+    priority: recommendation.priority,
+    description: recommendation.description
+  }));
+
+  return findings;
+}
+
+function auditToJson(audit: StoredAudit) {
+  return {
+    id: audit.id,
+    url: audit.url,
+    timestamp: audit.timestamp,
+    profile: audit.profile,
+    scores: audit.scores,
+    estimatedScores: audit.estimatedScores || [],
+    findings: collectFindings(audit),
+    errors: audit.errors || []
+  };
+}
+
+// Scores first, then one row per finding, so dashboards can load either from the same file
+function auditToCsv(audit: StoredAudit): string {
+  return toCsv([
+    ["url", "timestamp", "source", "id", "category", "name", "status", "priority", "value", "description"],
+    ...SCORE_KEYS.map(key => [audit.url, audit.timestamp, "score", `score.${key}`, key, `${key} score`, undefined, undefined, audit.scores[key], undefined]),
+    ...collectFindings(audit).map(finding => [
+      audit.url,
+      audit.timestamp,
+      finding.source,
+      finding.id,
+      finding.category,
+      finding.name,
+      finding.status,
+      finding.priority,
+      finding.value,
+      finding.description
+    ])
+  ]);
+}
+
+// A suite per score category; errors fail their test case, warnings pass with the description as output
+function auditToJUnit(audit: StoredAudit): string {
+  const findings = collectFindings(audit).filter(finding => finding.status);
+
+  return toJUnitXml(CATEGORIES.map(category => ({
+    name: `${audit.url} ${category}`,
+    timestamp: audit.timestamp,
+    tests: findings
+      .filter(finding => finding.category === category)
+      .map((finding): JUnitTestCase => ({
+        name: finding.name,
+        classname: finding.id,
+        ...(finding.status === "error" && { failure: { message: finding.description } }),
+        ...(finding.status === "warning" && { output: `Warning: ${finding.description}` })
+      }))
+  })).filter(suite => suite.tests.length > 0));
+}
+
+const RECOMMENDATION_LEVELS: Record<Recommendation["priority"], string> = { high: "warning", medium: "note", low: "note" };
+
+// SARIF 2.1.0 for code scanning and CI annotations; passing checks are left out
+function auditToSarif(audit: StoredAudit) {
+  const findings = collectFindings(audit).filter(finding => finding.status !== "good");
+  const rules = Array.from(new Map(findings.map(finding => [finding.id, finding])).values());
+  const ruleIndex = new Map(rules.map((rule, index) => [rule.id, index]));
+
+  return {
+    $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+    version: "2.1.0",
+    runs: [{
+      tool: {
+        driver: {
+          name: "seo-audit",
+          rules: rules.map(rule => ({
+            id: rule.id,
+            name: rule.name,
+            shortDescription: { text: rule.name },
+            properties: { category: rule.category, source: rule.source }
+          }))
+        }
+      },
+      artifacts: [{ location: { uri: audit.url } }],
+      results: findings.map(finding => ({
+        ruleId: finding.id,
+        ruleIndex: ruleIndex.get(finding.id),
+        level: finding.priority ? RECOMMENDATION_LEVELS[finding.priority] : finding.status,
+        message: { text: finding.description },
+        locations: [{ physicalLocation: { artifactLocation: { uri: audit.url, index: 0 } } }],
+        properties: {
+          category: finding.category,
+          ...(finding.priority && { priority: finding.priority }),
+          ...(finding.value && { value: finding.value })
+        }
+      })),
+      properties: { auditId: audit.id, timestamp: audit.timestamp, profile: audit.profile, scores: audit.scores }
+    }]
+  };
+}
@@ -0,0 +1,193 @@
+import axios, { type AxiosRequestConfig, type AxiosResponse } from "axios";
+import dns, { type LookupAddress } from "dns";
+import net from "net";
+import type { RedirectHop } from "@shared/schema";
+
+// Refused by the outbound policy; routes turn it into a 400 rather than a 500
+export class BlockedUrlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BlockedUrlError";
+  }
+}
+
+const ALLOWED_PROTOCOLS = new Set(["http:", "https:"]);
+// An empty port is the protocol's default
+const ALLOWED_PORTS = new Set(["", "80", "443", "8080", "8443"]);
+
+// Default cap on buffered response bodies
+export const MAX_RESPONSE_BYTES = 10 * 1024 * 1024;
+
+// Loopback, private, link-local (incl. cloud metadata), CGNAT, multicast and reserved ranges;
+// IPv4-mapped IPv6 addresses are matched against the IPv4 ranges. NAT64, 6to4 and Teredo addresses
+// reach an embedded IPv4 address, so those ranges are refused outright
+const BLOCKED_ADDRESSES = new net.BlockList();
+[
+  ["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8], ["169.254.0.0", 16],
+  ["172.16.0.0", 12], ["192.0.0.0", 24], ["192.168.0.0", 16], ["198.18.0.0", 15], ["224.0.0.0", 4], ["240.0.0.0", 4]
+].forEach(([address, prefix]) => BLOCKED_ADDRESSES.addSubnet(address as string, prefix as number, "ipv4"));
+[
+  ["::", 128], ["::1", 128], ["64:ff9b::", 96], ["64:ff9b:1::", 48], ["2001::", 32], ["2002::", 16],
+  ["fc00::", 7], ["fe80::", 10], ["ff00::", 8]
+].forEach(([address, prefix]) => BLOCKED_ADDRESSES.addSubnet(address as string, prefix as number, "ipv6"));
+
+export function isBlockedAddress(address: string): boolean {
+  const family = net.isIP(address);
+  return family === 0 || BLOCKED_ADDRESSES.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+// OUTBOUND_ALLOWED_HOSTS lists hosts exempt from the address and port rules, e.g. a staging server on the LAN
+function isAllowedHost(hostname: string): boolean {
+  const allowed = (process.env.OUTBOUND_ALLOWED_HOSTS || "").split(",").map(host => host.trim().toLowerCase());
+  return allowed.includes(hostname.toLowerCase().replace(/^\[|\]$/g, ""));
+}
+
+// Checks what can be told from the URL alone; hostnames are checked again when they resolve
+export function assertAllowedUrl(url: string): URL {
+  let target: URL;
+  try {
+    target = new URL(url);
+  } catch (error) {
+    throw new BlockedUrlError(`Invalid URL: ${url}`);
+  }
+
+  if (!ALLOWED_PROTOCOLS.has(target.protocol)) {
+    throw new BlockedUrlError(`Only http and https URLs can be audited, not ${target.protocol}`);
+  }
+  if (isAllowedHost(target.hostname)) {
+    return target;
+  }
+  if (!ALLOWED_PORTS.has(target.port)) {
+    throw new BlockedUrlError(`Port ${target.port} is not allowed; use 80, 443, 8080 or 8443`);
+  }
+
+  const literal = target.hostname.replace(/^\[|\]$/g, "");
+  if (net.isIP(literal) && isBlockedAddress(literal)) {
+    throw new BlockedUrlError(`${target.hostname} is a private or reserved address`);
+  }
+  return target;
+}
+
+// Also resolves the hostname, so callers can reject a URL before starting any work
+export async function assertPublicUrl(url: string): Promise<void> {
+  const target = assertAllowedUrl(url);
+  const hostname = target.hostname.replace(/^\[|\]$/g, "");
+  if (net.isIP(hostname) || isAllowedHost(hostname)) {
+    return;
+  }
+
+  let addresses: LookupAddress[];
+  try {
+    addresses = await dns.promises.lookup(hostname, { all: true });
+  } catch (error) {
+    // Unresolvable hosts fail later, the same way as any other unreachable site
+    return;
+  }
+  const blocked = addresses.find(({ address }) => isBlockedAddress(address));
+  if (blocked) {
+    throw new BlockedUrlError(`${hostname} resolves to the private or reserved address ${blocked.address}`);
+  }
+}
+
+type LookupCallback = (error: NodeJS.ErrnoException | null, address: string | LookupAddress[], family?: number) => void;
+
+// A dns.lookup for sockets that refuses private addresses at connect time, so a hostname
+// can't pass the URL checks and then resolve somewhere else (DNS rebinding)
+export function safeLookup(hostname: string, options: dns.LookupOptions, callback: LookupCallback): void {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      return callback(error, "");
+    }
+    if (!isAllowedHost(hostname)) {
+      const blocked = addresses.find(({ address }) => isBlockedAddress(address));
+      if (blocked) {
+        return callback(new BlockedUrlError(`${hostname} resolves to the private or reserved address ${blocked.address}`), "");
+      }
+    }
+    if (options.all) {
+      return callback(null, addresses);
+    }
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+}
+
+// Every outbound request goes through here: one hop at a time, to allowed URLs only, with a capped body
+export async function httpRequest<T = any>(config: AxiosRequestConfig & { url: string }): Promise<AxiosResponse<T>> {
+  assertAllowedUrl(config.url);
+
+  try {
+    return await axios.request<T>({
+      maxContentLength: MAX_RESPONSE_BYTES,
+      ...config,
+      maxRedirects: 0,
+      // axios accepts the same callback shape as dns.lookup; its typings are narrower
+      lookup: safeLookup as AxiosRequestConfig["lookup"]
+    });
+  } catch (error: any) {
+    // axios wraps socket errors, including the ones safeLookup raises
+    throw error?.cause instanceof BlockedUrlError ? error.cause : error;
+  }
+}
+
+export interface RedirectTrace<T = any> {
+  response: AxiosResponse<T>;
+  // Every request made, ending with the response that was returned
+  hops: RedirectHop[];
+  loop: boolean;
+  exceeded: boolean;
+}
+
+export interface FollowRedirectsOptions {
+  maxRedirects?: number;
+  // Called before every hop, e.g. to rate limit per host
+  beforeRequest?: (url: string) => Promise<void>;
+}
+
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+// Follows redirects one hop at a time so the chain can be reported, not just its end
+export async function followRedirects<T = any>(
+  config: AxiosRequestConfig & { url: string },
+  { maxRedirects = 10, beforeRequest }: FollowRedirectsOptions = {}
+): Promise<RedirectTrace<T>> {
+  const hops: RedirectHop[] = [];
+  const visited = new Set<string>();
+  let url = config.url;
+  let method = config.method || 'GET';
+
+  while (true) {
+    visited.add(url);
+    await beforeRequest?.(url);
+
+    const response = await httpRequest<T>({
+      ...config,
+      url,
+      method,
+      validateStatus: () => true
+    });
+
+    const location = response.headers['location'];
+    if (!REDIRECT_STATUSES.has(response.status) || !location) {
+      hops.push({ url, statusCode: response.status });
+      return { response, hops, loop: false, exceeded: false };
+    }
+
+    const next = new URL(String(location), url).href;
+    hops.push({ url, statusCode: response.status, location: next });
+
+    const loop = visited.has(next);
+    const exceeded = hops.length > maxRedirects;
+    if (loop || exceeded) {
+      return { response, hops, loop, exceeded };
+    }
+
+    // Streamed bodies of intermediate hops are never read
+    (response.data as any)?.destroy?.();
+
+    // "See Other" switches the follow-up request to GET
+    if (response.status === 303 && method.toUpperCase() !== 'HEAD') {
+      method = 'GET';
+    }
+    url = next;
+  }
+}
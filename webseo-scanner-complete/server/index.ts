@@ -1,10 +1,9 @@
+import "dotenv/config";
 import express, { type Request, Response, NextFunction } from "express";
-import { config } from "dotenv";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
-
-// Load environment variables
-config();
+import { startScheduler } from "./scheduler";
+import { getScoringProfile } from "./scoring-profile";
 
 const app = express();
 
@@ -68,6 +67,9 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  // Fail at startup rather than on the first audit when SCORING_PROFILE is invalid
+  getScoringProfile();
+
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
@@ -97,5 +99,6 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    startScheduler();
   });
 })();
@@ -0,0 +1,91 @@
+import { randomUUID } from "crypto";
+import type { AuditEvent, AuditJob, AuditJobStatus, AuditProfile } from "@shared/schema";
+import { runAudit } from "./audit";
+import { storage } from "./storage";
+
+// Finished jobs are kept this long so a client that connects late still gets the outcome
+const FINISHED_JOB_TTL_MS = 15 * 60 * 1000;
+
+// Receives each event with its 1-based position, used as the SSE event ID
+export type AuditEventListener = (event: AuditEvent, id: number) => void;
+
+interface RunningJob {
+  id: string;
+  url: string;
+  status: AuditJobStatus;
+  events: AuditEvent[];
+  listeners: Set<AuditEventListener>;
+}
+
+const jobs = new Map<string, RunningJob>();
+
+// Starts an audit in the background; progress is published through subscribeToAuditJob
+export function startAuditJob(url: string, profile?: AuditProfile): AuditJob {
+  const job: RunningJob = { id: randomUUID(), url, status: "running", events: [], listeners: new Set() };
+  jobs.set(job.id, job);
+
+  const publish = (event: AuditEvent) => {
+    job.events.push(event);
+    job.listeners.forEach(listener => listener(event, job.events.length));
+  };
+
+  runAudit(url, { profile, onProgress: publish })
+    .then(async results => {
+      // Storage failures still hand back the unsaved result, as POST /api/audit always has
+      const audit = await storage.saveAudit(results).catch(error => {
+        console.error("Failed to save audit:", error);
+        return results;
+      });
+      job.status = "complete";
+      publish({ type: "complete", audit });
+    })
+    .catch(error => {
+      console.error(`Audit job ${job.id} failed:`, error);
+      job.status = "failed";
+      publish({ type: "failed", error: error.message || "Audit failed" });
+    })
+    .finally(() => {
+      job.listeners.clear();
+      setTimeout(() => jobs.delete(job.id), FINISHED_JOB_TTL_MS).unref();
+    });
+
+  return describeJob(job);
+}
+
+export function getAuditJob(id: string): AuditJob | undefined {
+  const job = jobs.get(id);
+  return job && describeJob(job);
+}
+
+// Replays the events after `afterId` (e.g. from Last-Event-ID), then delivers new ones as they
+// happen. Returns an unsubscribe function, or undefined for unknown jobs.
+export function subscribeToAuditJob(id: string, afterId: number, listener: AuditEventListener): (() => void) | undefined {
+  const job = jobs.get(id);
+  if (!job) {
+    return undefined;
+  }
+
+  job.events.slice(afterId).forEach((event, index) => listener(event, afterId + index + 1));
+  if (job.status === "running") {
+    job.listeners.add(listener);
+  }
+  return () => job.listeners.delete(listener);
+}
+
+// Resolves with the job's final event, whether it has already finished or not
+export function waitForAuditJob(id: string): Promise<Extract<AuditEvent, { type: "complete" | "failed" }>> {
+  return new Promise((resolve, reject) => {
+    const unsubscribe = subscribeToAuditJob(id, 0, event => {
+      if (event.type === "complete" || event.type === "failed") {
+        resolve(event);
+      }
+    });
+    if (!unsubscribe) {
+      reject(new Error(`Unknown audit job ${id}`));
+    }
+  });
+}
+
+function describeJob(job: RunningJob): AuditJob {
+  return { jobId: job.id, url: job.url, status: job.status, eventsUrl: `/api/audits/${job.id}/events` };
+}
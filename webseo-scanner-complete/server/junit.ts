@@ -0,0 +1,70 @@
+export interface JUnitTestCase {
+  name: string;
+  classname: string;
+  // Seconds
+  time?: number;
+  failure?: { message: string; details?: string };
+  skipped?: string;
+  output?: string;
+}
+
+export interface JUnitTestSuite {
+  name: string;
+  timestamp?: string;
+  tests: JUnitTestCase[];
+}
+
+// The JUnit XML subset CI servers (Jenkins, GitLab, GitHub Actions reporters) understand
+export function toJUnitXml(suites: JUnitTestSuite[], name = "seo-audit"): string {
+  const count = (tests: JUnitTestCase[]) => ({
+    tests: tests.length,
+    failures: tests.filter(test => test.failure).length,
+    skipped: tests.filter(test => test.skipped !== undefined).length
+  });
+  const totals = count(suites.flatMap(suite => suite.tests));
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="${escapeXml(name)}" tests="${totals.tests}" failures="${totals.failures}" errors="0" skipped="${totals.skipped}">`
+  ];
+
+  suites.forEach(suite => {
+    const totals = count(suite.tests);
+    const timestamp = suite.timestamp ? ` timestamp="${escapeXml(suite.timestamp)}"` : "";
+    lines.push(`  <testsuite name="${escapeXml(suite.name)}" tests="${totals.tests}" failures="${totals.failures}" errors="0" skipped="${totals.skipped}"${timestamp}>`);
+
+    suite.tests.forEach(test => {
+      const time = test.time !== undefined ? ` time="${test.time.toFixed(3)}"` : "";
+      const open = `    <testcase name="${escapeXml(test.name)}" classname="${escapeXml(test.classname)}"${time}`;
+      const children: string[] = [];
+
+      if (test.failure) {
+        children.push(`      <failure message="${escapeXml(test.failure.message)}">${escapeXml(test.failure.details ?? test.failure.message)}</failure>`);
+      }
+      if (test.skipped !== undefined) {
+        children.push(`      <skipped message="${escapeXml(test.skipped)}"/>`);
+      }
+      if (test.output) {
+        children.push(`      <system-out>${escapeXml(test.output)}</system-out>`);
+      }
+
+      lines.push(children.length > 0 ? `${open}>\n${children.join("\n")}\n    </testcase>` : `${open}/>`);
+    });
+
+    lines.push("  </testsuite>");
+  });
+
+  lines.push("</testsuites>");
+  return lines.join("\n") + "\n";
+}
+
+function escapeXml(value: string): string {
+  return value
+    // Control characters other than tab and line breaks are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
@@ -0,0 +1,136 @@
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createServer } from "http";
+import { checkLinksStatus, type LinkCheckOptions } from "./analyzers/link-checker";
+import { dedupeLinks } from "./analyzers/links";
+import { close, listen } from "./test/fixture-site";
+
+// Checks links against two local servers that log every request they receive
+
+interface LoggedRequest {
+  host: string;
+  method: string;
+  path: string;
+  at: number;
+}
+
+const OPTIONS: LinkCheckOptions = { concurrency: 8, perHostIntervalMs: 0, timeout: 5000 };
+
+let first: string;
+let second: string;
+let closeServers: () => Promise<void>;
+const requests: LoggedRequest[] = [];
+
+function startServer(host: string): Promise<{ origin: string; close(): Promise<void> }> {
+  const server = createServer((req, res) => {
+    requests.push({ host: req.headers.host || "", method: req.method || "", path: req.url || "", at: Date.now() });
+
+    const status = ({
+      "/ok": 200,
+      "/gone": 404,
+      // Servers that don't implement HEAD
+      "/no-head": req.method === "HEAD" ? 405 : 200,
+      "/not-implemented": req.method === "HEAD" ? 501 : 200
+    } as Record<string, number>)[req.url || ""] ?? 404;
+
+    res.writeHead(status, { "Content-Type": "text/html" });
+    res.end(req.method === "HEAD" ? undefined : "<p>page</p>");
+  });
+  return listen(server, 0, host).then(origin => ({ origin, close: () => close(server) }));
+}
+
+const requestsTo = (origin: string) => requests.filter(request => `http://${request.host}` === origin);
+
+before(async () => {
+  const servers = await Promise.all([startServer("127.0.0.1"), startServer("127.0.0.2")]);
+  [first, second] = servers.map(server => server.origin);
+  closeServers = async () => { await Promise.all(servers.map(server => server.close())); };
+  process.env.OUTBOUND_ALLOWED_HOSTS = "127.0.0.1,127.0.0.2";
+});
+
+beforeEach(() => {
+  requests.length = 0;
+});
+
+after(async () => {
+  delete process.env.OUTBOUND_ALLOWED_HOSTS;
+  await closeServers();
+});
+
+describe("checkLinksStatus", () => {
+  it("only uses HEAD when the server answers it", async () => {
+    const [ok] = await checkLinksStatus([{ fullUrl: `${first}/ok` }], OPTIONS);
+    assert.equal(ok.status, "working");
+    assert.equal(ok.method, "HEAD");
+    assert.deepEqual(requests.map(request => request.method), ["HEAD"]);
+  });
+
+  it("falls back to GET when HEAD is rejected with 405 or 501", async () => {
+    const checked = await checkLinksStatus([{ fullUrl: `${first}/no-head` }, { fullUrl: `${first}/not-implemented` }], OPTIONS);
+
+    assert.deepEqual(checked.map(link => [link.status, link.statusCode, link.method]), [
+      ["working", 200, "GET"],
+      ["working", 200, "GET"]
+    ]);
+    assert.deepEqual(requests.map(request => `${request.method} ${request.path}`).sort(), [
+      "GET /no-head",
+      "GET /not-implemented",
+      "HEAD /no-head",
+      "HEAD /not-implemented"
+    ]);
+  });
+
+  it("confirms a broken link with GET before reporting it", async () => {
+    const [gone] = await checkLinksStatus([{ fullUrl: `${first}/gone` }], OPTIONS);
+    assert.deepEqual([gone.status, gone.statusCode, gone.method], ["broken", 404, "GET"]);
+    assert.deepEqual(requests.map(request => request.method), ["HEAD", "GET"]);
+  });
+
+  it("requests each distinct URL once and reports it on every link", async () => {
+    const links = dedupeLinks([
+      { fullUrl: `${first}/ok`, text: "", type: "internal" },
+      { fullUrl: `${first}/gone`, text: "Old page", type: "internal" },
+      { fullUrl: `${first}/ok`, text: "Home", type: "internal" },
+      { fullUrl: `${first}/ok`, text: "Start", type: "internal" }
+    ]);
+    assert.deepEqual(links.map(link => [link.fullUrl, link.text, link.occurrences]), [
+      [`${first}/ok`, "Home", 3],
+      [`${first}/gone`, "Old page", 1]
+    ]);
+
+    // Links that weren't deduplicated still share one request per URL
+    const checked = await checkLinksStatus([...links, { fullUrl: `${first}/ok` }], OPTIONS);
+    assert.deepEqual(checked.map(link => [link.fullUrl, link.status]), [
+      [`${first}/ok`, "working"],
+      [`${first}/gone`, "broken"],
+      [`${first}/ok`, "working"]
+    ]);
+    assert.equal(checked[0].occurrences, 3);
+    assert.equal(requests.filter(request => request.path === "/ok").length, 1);
+  });
+
+  it("spaces out requests to the same host without holding up other hosts", async () => {
+    const intervalMs = 200;
+    const paths = ["/ok", "/gone", "/no-head"];
+    const started = Date.now();
+
+    await checkLinksStatus(
+      [...paths.map(path => ({ fullUrl: `${first}${path}` })), ...paths.map(path => ({ fullUrl: `${second}${path}` }))],
+      { ...OPTIONS, perHostIntervalMs: intervalMs }
+    );
+
+    [first, second].forEach(origin => {
+      const times = requestsTo(origin).map(request => request.at);
+      // HEAD, then GET for /gone and /no-head
+      assert.equal(times.length, 5);
+      // Slots are reserved when requests are sent, so arrivals can drift by a few milliseconds
+      times.slice(1).forEach((time, index) => {
+        assert.ok(time - times[index] >= intervalMs * 0.75, `${origin}: ${time - times[index]}ms between requests`);
+      });
+      assert.ok(times[4] - times[0] >= intervalMs * 4 - 25, `${origin}: ${times[4] - times[0]}ms for five requests`);
+    });
+
+    // The hosts are limited independently, so the second doesn't wait for the first
+    assert.ok(requestsTo(second)[0].at - started < intervalMs, "second host started late");
+  });
+});
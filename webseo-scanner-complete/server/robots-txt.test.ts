@@ -0,0 +1,80 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { findGroups, isAllowed, parseRobotsTxt } from "./robots-txt";
+
+const robots = parseRobotsTxt([
+  "# Comments and blank lines are ignored",
+  "",
+  "User-agent: Googlebot",
+  "User-agent: Bingbot",
+  "Disallow: /private/",
+  "Allow: /private/press/",
+  "",
+  "User-agent: *",
+  "Disallow: /",
+  "Allow: /public",
+  "Crawl-delay: 5",
+  "",
+  "User-agent: googlebot",
+  "Disallow: /*.pdf$",
+  "Disallow: /search*q=",
+  "Allow: /page",
+  "Disallow: /page",
+  "",
+  "Sitemap: https://example.com/sitemap.xml"
+].join("\n"));
+
+const check = (userAgent: string, path: string) => isAllowed(robots, userAgent, `https://example.com${path}`);
+
+describe("parseRobotsTxt", () => {
+  it("groups consecutive User-agent lines with the rules that follow them", () => {
+    assert.equal(robots.groups.length, 3);
+    assert.deepEqual(robots.groups[0].userAgents, ["Googlebot", "Bingbot"]);
+    assert.deepEqual(robots.groups[0].rules.map(rule => [rule.type, rule.path]), [
+      ["disallow", "/private/"],
+      ["allow", "/private/press/"]
+    ]);
+    assert.equal(robots.groups[1].crawlDelay, 5);
+    assert.deepEqual(robots.sitemaps, ["https://example.com/sitemap.xml"]);
+    assert.deepEqual(robots.errors, []);
+  });
+
+  it("reports lines it cannot use", () => {
+    const parsed = parseRobotsTxt("Disallow: /early\nUser-agent: *\nno separator\nDisallow: private\nCrawl-delay: soon\nNoindex: /x");
+    assert.deepEqual(parsed.errors.map(error => error.line), [1, 3, 4, 5]);
+    assert.match(parsed.errors[0].message, /before any User-agent/);
+    assert.deepEqual(parsed.unknownDirectives, [{ line: 6, directive: "Noindex" }]);
+  });
+});
+
+describe("isAllowed", () => {
+  it("merges every group naming the crawler, case-insensitively", () => {
+    assert.deepEqual(findGroups(robots, "Googlebot/2.1"), [robots.groups[0], robots.groups[2]]);
+    assert.deepEqual(check("Googlebot", "/private/notes"), { allowed: false, rule: "Disallow: /private/" });
+    assert.deepEqual(check("Googlebot", "/report.pdf"), { allowed: false, rule: "Disallow: /*.pdf$" });
+  });
+
+  it("matches * anywhere and anchors $ at the end of the path", () => {
+    assert.equal(check("Googlebot", "/files/report.pdf").allowed, false);
+    assert.equal(check("Googlebot", "/files/report.pdf?download=1").allowed, true);
+    assert.equal(check("Googlebot", "/search?lang=en&q=shoes").allowed, false);
+    assert.equal(check("Googlebot", "/search").allowed, true);
+  });
+
+  it("lets the longest matching rule win, and Allow win a tie", () => {
+    assert.deepEqual(check("Bingbot", "/private/press/launch"), { allowed: true, rule: "Allow: /private/press/" });
+    assert.deepEqual(check("Googlebot", "/page"), { allowed: true, rule: "Allow: /page" });
+  });
+
+  it("falls back to the * group for crawlers without their own", () => {
+    assert.deepEqual(check("SEO-Audit-Bot", "/about"), { allowed: false, rule: "Disallow: /" });
+    assert.deepEqual(check("SEO-Audit-Bot", "/public/index.html"), { allowed: true, rule: "Allow: /public" });
+    // Named groups replace the * group rather than adding to it
+    assert.equal(check("Bingbot", "/about").allowed, true);
+  });
+
+  it("allows everything without rules, and robots.txt itself always", () => {
+    assert.deepEqual(isAllowed(parseRobotsTxt(""), "Googlebot", "https://example.com/anything"), { allowed: true });
+    assert.deepEqual(check("SEO-Audit-Bot", "/robots.txt"), { allowed: true });
+  });
+});
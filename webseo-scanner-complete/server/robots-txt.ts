@@ -0,0 +1,171 @@
+// robots.txt parsing and matching, following RFC 9309 and Google's documented behaviour
+
+export interface RobotsRule {
+  type: 'allow' | 'disallow';
+  path: string;
+  line: number;
+}
+
+export interface RobotsGroup {
+  userAgents: string[];
+  rules: RobotsRule[];
+  crawlDelay?: number;
+}
+
+export interface RobotsTxt {
+  groups: RobotsGroup[];
+  sitemaps: string[];
+  errors: { line: number; message: string }[];
+  unknownDirectives: { line: number; directive: string }[];
+}
+
+export interface RobotsVerdict {
+  allowed: boolean;
+  // The rule that decided the verdict, e.g. "Disallow: /private/"
+  rule?: string;
+}
+
+// Crawlers every audit is evaluated for
+export const ROBOTS_USER_AGENTS = ['Googlebot', 'Bingbot', 'SEO-Audit-Bot'];
+
+export function parseRobotsTxt(content: string): RobotsTxt {
+  const robots: RobotsTxt = { groups: [], sitemaps: [], errors: [], unknownDirectives: [] };
+  let group: RobotsGroup | undefined;
+  // Consecutive User-agent lines share one group
+  let collectingAgents = false;
+
+  content.split(/\r\n|\r|\n/).forEach((rawLine, index) => {
+    const lineNumber = index + 1;
+    const line = rawLine.split('#')[0].trim();
+    if (!line) return;
+
+    const separator = line.indexOf(':');
+    if (separator === -1) {
+      robots.errors.push({ line: lineNumber, message: `Missing ':' separator in "${line}"` });
+      return;
+    }
+
+    const directive = line.substring(0, separator).trim().toLowerCase();
+    const value = line.substring(separator + 1).trim();
+
+    switch (directive) {
+      case 'user-agent':
+        if (!value) {
+          robots.errors.push({ line: lineNumber, message: 'User-agent has no value' });
+          return;
+        }
+        if (!group || !collectingAgents) {
+          group = { userAgents: [], rules: [] };
+          robots.groups.push(group);
+        }
+        group.userAgents.push(value);
+        collectingAgents = true;
+        return;
+
+      case 'allow':
+      case 'disallow':
+        collectingAgents = false;
+        if (!group) {
+          robots.errors.push({ line: lineNumber, message: `${capitalize(directive)} appears before any User-agent` });
+          return;
+        }
+        // An empty Disallow allows everything, which is already the default
+        if (!value) return;
+        if (!value.startsWith('/') && !value.startsWith('*')) {
+          robots.errors.push({ line: lineNumber, message: `${capitalize(directive)} path should start with "/": ${value}` });
+        }
+        group.rules.push({ type: directive, path: value, line: lineNumber });
+        return;
+
+      case 'crawl-delay': {
+        collectingAgents = false;
+        const delay = Number(value);
+        if (!group) {
+          robots.errors.push({ line: lineNumber, message: 'Crawl-delay appears before any User-agent' });
+        } else if (!value || Number.isNaN(delay) || delay < 0) {
+          robots.errors.push({ line: lineNumber, message: `Invalid Crawl-delay value: ${value}` });
+        } else {
+          group.crawlDelay = delay;
+        }
+        return;
+      }
+
+      case 'sitemap':
+        // Sitemap lines stand apart from groups
+        if (value) robots.sitemaps.push(value);
+        return;
+
+      default:
+        collectingAgents = false;
+        robots.unknownDirectives.push({ line: lineNumber, directive: line.substring(0, separator).trim() });
+    }
+  });
+
+  return robots;
+}
+
+// Groups that apply to a crawler: those naming its product token, otherwise the "*" groups
+export function findGroups(robots: RobotsTxt, userAgent: string): RobotsGroup[] {
+  const token = userAgent.split('/')[0].trim().toLowerCase();
+  const named = robots.groups.filter(group =>
+    group.userAgents.some(agent => agent.toLowerCase() === token)
+  );
+  if (named.length > 0) return named;
+
+  return robots.groups.filter(group => group.userAgents.includes('*'));
+}
+
+export function isAllowed(robots: RobotsTxt, userAgent: string, url: string): RobotsVerdict {
+  const target = new URL(url);
+  const path = target.pathname + target.search;
+
+  // robots.txt itself can always be fetched
+  if (target.pathname === '/robots.txt') {
+    return { allowed: true };
+  }
+
+  let best: RobotsRule | undefined;
+  findGroups(robots, userAgent).forEach(group => {
+    group.rules.forEach(rule => {
+      if (!matchesPath(rule.path, path)) return;
+      // The most specific (longest) rule wins; Allow wins a tie
+      if (!best || rule.path.length > best.path.length ||
+          (rule.path.length === best.path.length && rule.type === 'allow')) {
+        best = rule;
+      }
+    });
+  });
+
+  if (!best) {
+    return { allowed: true };
+  }
+  return {
+    allowed: best.type === 'allow',
+    rule: `${capitalize(best.type)}: ${best.path}`
+  };
+}
+
+// "*" matches any run of characters and a trailing "$" anchors the end of the path
+function matchesPath(pattern: string, path: string): boolean {
+  const anchored = pattern.endsWith('$');
+  const body = anchored ? pattern.slice(0, -1) : pattern;
+  const source = body
+    .split('*')
+    .map(part => normalizeEncoding(part).replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+
+  return new RegExp(`^${source}${anchored ? '$' : ''}`).test(normalizeEncoding(path));
+}
+
+// Compare paths with percent-encoding normalised, so "/caf%C3%A9" matches "/café"
+function normalizeEncoding(value: string): string {
+  try {
+    return encodeURI(decodeURI(value));
+  } catch (error) {
+    return value;
+  }
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
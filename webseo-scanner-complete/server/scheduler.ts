@@ -0,0 +1,85 @@
+import type { AuditSchedule, ScheduleFrequency } from "@shared/schema";
+import { runAudit } from "./audit";
+import { storage } from "./storage";
+
+const FREQUENCY_MS: Record<ScheduleFrequency, number> = {
+  hourly: 60 * 60 * 1000,
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000
+};
+
+// How often the runner looks for schedules that are due
+const TICK_INTERVAL_MS = 60 * 1000;
+
+let timer: NodeJS.Timeout | undefined;
+let ticking = false;
+
+export function getNextRunAt(frequency: ScheduleFrequency, from: Date = new Date()): Date {
+  return new Date(from.getTime() + FREQUENCY_MS[frequency]);
+}
+
+// Starts the in-process job runner; safe to call more than once
+export function startScheduler(): void {
+  if (timer) {
+    return;
+  }
+
+  timer = setInterval(tick, TICK_INTERVAL_MS);
+  // Never keep the process alive just for scheduled audits
+  timer.unref();
+  tick();
+}
+
+export function stopScheduler(): void {
+  if (timer) {
+    clearInterval(timer);
+    timer = undefined;
+  }
+}
+
+// Runs a schedule's audit now, stores the result and books the next run
+export async function runSchedule(schedule: AuditSchedule): Promise<AuditSchedule | undefined> {
+  const startedAt = new Date();
+  const nextRunAt = getNextRunAt(schedule.frequency as ScheduleFrequency, startedAt);
+
+  console.log(`Running scheduled ${schedule.frequency} audit #${schedule.id} for: ${schedule.url}`);
+
+  try {
+    const result = await runAudit(schedule.url);
+    const saved = await storage.saveAudit(result);
+
+    return storage.updateSchedule(schedule.id, {
+      lastRunAt: startedAt,
+      lastAuditId: saved.id,
+      lastError: null,
+      nextRunAt
+    });
+  } catch (error: any) {
+    console.error(`Scheduled audit #${schedule.id} failed:`, error);
+
+    return storage.updateSchedule(schedule.id, {
+      lastRunAt: startedAt,
+      lastError: error.message || "Scheduled audit failed",
+      nextRunAt
+    });
+  }
+}
+
+async function tick(): Promise<void> {
+  // A slow audit can outlast the interval; let the running tick finish first
+  if (ticking) {
+    return;
+  }
+  ticking = true;
+
+  try {
+    const due = await storage.getDueSchedules(new Date());
+    for (const schedule of due) {
+      await runSchedule(schedule);
+    }
+  } catch (error) {
+    console.error("Scheduler tick failed:", error);
+  } finally {
+    ticking = false;
+  }
+}
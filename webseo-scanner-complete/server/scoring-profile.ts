@@ -0,0 +1,45 @@
+import { readFileSync } from "fs";
+import { scoringProfileSchema, type ScoringProfile } from "@shared/schema";
+
+// Title, description, H1 and viewport matter most; the social tags least
+const DEFAULT_CHECK_WEIGHTS: Record<string, number> = {
+  "meta.title-tag": 3,
+  "meta.meta-description": 2,
+  "meta.h1-tags": 2,
+  "meta.viewport-meta-tag": 2,
+  "meta.twitter-cards": 0.5,
+  "meta.language-declaration": 0.5
+};
+
+export const DEFAULT_SCORING_PROFILE: ScoringProfile = parseScoringProfile({ name: "default" });
+
+let activeProfile: ScoringProfile | undefined;
+
+// The profile from SCORING_PROFILE (a JSON file path) until one is set through the API
+export function getScoringProfile(): ScoringProfile {
+  if (!activeProfile) {
+    activeProfile = process.env.SCORING_PROFILE
+      ? loadScoringProfile(process.env.SCORING_PROFILE)
+      : DEFAULT_SCORING_PROFILE;
+  }
+  return activeProfile;
+}
+
+export function setScoringProfile(input: unknown): ScoringProfile {
+  activeProfile = parseScoringProfile(input);
+  return activeProfile;
+}
+
+export function loadScoringProfile(path: string): ScoringProfile {
+  try {
+    return parseScoringProfile(JSON.parse(readFileSync(path, "utf8")));
+  } catch (error: any) {
+    throw new Error(`Invalid scoring profile ${path}: ${error.message}`);
+  }
+}
+
+// Check weights are merged over the defaults, so a profile only lists the ones it changes
+function parseScoringProfile(input: unknown): ScoringProfile {
+  const profile = scoringProfileSchema.parse(input);
+  return { ...profile, checks: { ...DEFAULT_CHECK_WEIGHTS, ...profile.checks } };
+}
@@ -0,0 +1,80 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { scoringProfileSchema, type AuditResult, type MetaTagItem } from "@shared/schema";
+import { calculateScores } from "./scoring";
+import { DEFAULT_SCORING_PROFILE } from "./scoring-profile";
+
+const meta = (statuses: Record<string, MetaTagItem["status"]>) => ({
+  items: Object.entries(statuses).map(([name, status]) => ({ name, status, description: name }))
+});
+
+const results: Partial<AuditResult> = {
+  meta: meta({ "Title Tag": "good", "Meta Description": "warning", "Twitter Cards": "error" }),
+  headers: {
+    security: [
+      { name: "Strict-Transport-Security", status: "good", description: "" },
+      { name: "X-Frame-Options", status: "error", description: "" }
+    ],
+    caching: []
+  },
+  speed: { performance: { score: 80, strategy: "desktop" }, mobile: { score: 40, strategy: "mobile" } }
+};
+
+describe("calculateScores", () => {
+  it("weights checks by the default profile", () => {
+    const { scores, breakdown } = calculateScores(results, { profile: DEFAULT_SCORING_PROFILE });
+
+    // Title 3/3, description 1/2 at the warning penalty, Twitter Cards 0/0.5
+    assert.equal(scores.content, Math.round(100 * 4 / 5.5));
+    assert.equal(scores.technical, 50);
+    assert.equal(scores.performance, 80);
+    assert.equal(scores.mobile, 40);
+    assert.equal(scores.overall, Math.round((73 + 50 + 80 + 40) / 4));
+
+    assert.deepEqual(breakdown.content.checks.map(check => [check.id, check.weight, check.points]), [
+      ["meta.title-tag", 3, 3],
+      ["meta.meta-description", 2, 1],
+      ["meta.twitter-cards", 0.5, 0]
+    ]);
+    assert.equal(breakdown.mobile.checks[0].status, "error");
+  });
+
+  it("leaves categories without checks out of the overall score", () => {
+    const { scores, breakdown } = calculateScores({ meta: results.meta }, { profile: DEFAULT_SCORING_PROFILE });
+    assert.equal(breakdown.technical.score, null);
+    assert.equal(scores.technical, 0);
+    assert.equal(scores.overall, scores.content);
+  });
+
+  it("counts a failed analyzer as an error unless the profile excludes it", () => {
+    const partial = { meta: results.meta, headers: results.headers };
+
+    const penalized = calculateScores(partial, { profile: DEFAULT_SCORING_PROFILE, failed: ["speed"] });
+    assert.equal(penalized.scores.performance, 0);
+    assert.equal(penalized.breakdown.performance.checks[0].id, "speed.failed");
+    assert.ok(penalized.scores.overall < Math.round((73 + 50) / 2));
+
+    const excluded = calculateScores(partial, {
+      profile: scoringProfileSchema.parse({ failedAnalyzers: "exclude" }),
+      failed: ["speed"]
+    });
+    assert.equal(excluded.breakdown.performance.score, null);
+  });
+
+  it("applies check, wildcard, severity and category weights from a custom profile", () => {
+    const profile = scoringProfileSchema.parse({
+      name: "strict",
+      categories: { technical: 3, content: 1, performance: 0, mobile: 0 },
+      severity: { warning: 0 },
+      checks: { "meta.twitter-cards": 0, "headers.*": 2, "headers.x-frame-options": 0 }
+    });
+    const { scores, breakdown } = calculateScores(results, { profile });
+
+    assert.equal(breakdown.profile, "strict");
+    assert.deepEqual(breakdown.content.checks.map(check => check.id), ["meta.title-tag", "meta.meta-description"]);
+    assert.equal(scores.content, 50);
+    assert.deepEqual(breakdown.technical.checks.map(check => [check.id, check.weight]), [["headers.strict-transport-security", 2]]);
+    assert.equal(scores.technical, 100);
+    assert.equal(scores.overall, Math.round((100 * 3 + 50) / 4));
+  });
+});
@@ -0,0 +1,119 @@
+import type { AuditResult, Recommendation, ScoreBreakdown, ScoringProfile } from "@shared/schema";
+import { getAnalyzers, type CheckOutcome, type ScoreCategory } from "./analyzers";
+import { getScoringProfile } from "./scoring-profile";
+
+export interface ScoringOptions {
+  profile?: ScoringProfile;
+  // Analyzers that threw; penalised or left out as the profile says
+  failed?: string[];
+}
+
+const CATEGORIES: ScoreCategory[] = ['technical', 'content', 'performance', 'mobile'];
+
+const PRIORITY_RANK: Record<Recommendation['priority'], number> = { high: 0, medium: 1, low: 2 };
+
+// Weights every analyzer's checks with the scoring profile into category and overall scores
+export function calculateScores(
+  results: Partial<AuditResult>,
+  { profile = getScoringProfile(), failed = [] }: ScoringOptions = {}
+): { scores: AuditResult["scores"]; breakdown: ScoreBreakdown } {
+  const breakdown: ScoreBreakdown = {
+    profile: profile.name,
+    technical: { score: null, weight: profile.categories.technical, checks: [] },
+    content: { score: null, weight: profile.categories.content, checks: [] },
+    performance: { score: null, weight: profile.categories.performance, checks: [] },
+    mobile: { score: null, weight: profile.categories.mobile, checks: [] }
+  };
+
+  getAnalyzers().forEach(analyzer => {
+    if (!analyzer.checks) {
+      return;
+    }
+
+    const result = (results as Record<string, unknown>)[analyzer.id];
+    let outcomes: CheckOutcome[] = [];
+    if (result !== undefined) {
+      outcomes = analyzer.checks(result);
+    } else if (failed.includes(analyzer.id) && profile.failedAnalyzers === 'penalize') {
+      // Otherwise a failed analyzer would drop out and leave its category looking better
+      outcomes = [{ id: 'failed', label: `${analyzer.name} failed`, category: analyzer.category, status: 'error' }];
+    }
+
+    outcomes.forEach(outcome => {
+      const id = `${analyzer.id}.${toCheckId(outcome.id ?? outcome.label)}`;
+      const weight = profile.checks[id] ?? profile.checks[`${analyzer.id}.*`] ?? profile.defaultWeight;
+      if (weight === 0) {
+        return;
+      }
+
+      const share = outcome.value !== undefined ? outcome.value / 100 : profile.severity[outcome.status];
+      breakdown[outcome.category].checks.push({
+        id,
+        analyzer: analyzer.id,
+        label: outcome.label,
+        status: outcome.status,
+        value: outcome.value,
+        weight,
+        points: Math.round(weight * share * 100) / 100
+      });
+    });
+  });
+
+  const scores = { overall: 0, technical: 0, content: 0, performance: 0, mobile: 0 };
+
+  CATEGORIES.forEach(category => {
+    const { checks } = breakdown[category];
+    const possible = checks.reduce((total, check) => total + check.weight, 0);
+    if (possible > 0) {
+      const earned = checks.reduce((total, check) => total + check.points, 0);
+      breakdown[category].score = Math.round(100 * earned / possible);
+      scores[category] = breakdown[category].score!;
+    }
+  });
+
+  // Categories without any checks are left out rather than counted as zero
+  const weighted = CATEGORIES.filter(category => breakdown[category].score !== null && breakdown[category].weight > 0);
+  const totalWeight = weighted.reduce((total, category) => total + breakdown[category].weight, 0);
+  if (totalWeight > 0) {
+    scores.overall = Math.round(
+      weighted.reduce((total, category) => total + scores[category] * breakdown[category].weight, 0) / totalWeight
+    );
+  }
+
+  return { scores, breakdown };
+}
+
+// "Title Tag" becomes "title-tag"
+export function toCheckId(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+// Categories fed by at least one analyzer whose score is only an estimate
+export function findEstimatedScores(results: Partial<AuditResult>): ScoreCategory[] {
+  const estimated = new Set<ScoreCategory>();
+
+  getAnalyzers().forEach(analyzer => {
+    const result = (results as Record<string, unknown>)[analyzer.id];
+    if (result === undefined || !analyzer.checks || !analyzer.estimated?.(result)) {
+      return;
+    }
+    analyzer.checks(result).forEach(check => estimated.add(check.category));
+  });
+
+  return Array.from(estimated);
+}
+
+export function generateRecommendations(results: Partial<AuditResult>): Recommendation[] {
+  return getAnalyzers().flatMap(analyzer => {
+    const result = (results as Record<string, unknown>)[analyzer.id];
+    if (result === undefined || !analyzer.recommend) {
+      return [];
+    }
+    return analyzer.recommend(result, results);
+  });
+}
+
+// Most urgent first; analyzer order breaks ties
+export function sortRecommendations(recommendations: Recommendation[]): Recommendation[] {
+  return recommendations.slice().sort((a, b) => PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority]);
+}
@@ -0,0 +1,136 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createServer } from "http";
+import { gzipSync } from "zlib";
+import { analyzeRobots } from "./analyzers/robots";
+import { SITEMAP_MAX_BYTES, SITEMAP_MAX_URLS, loadSitemaps } from "./sitemap";
+import { close, listen, startFixtureSite, type FixtureSite } from "./test/fixture-site";
+
+// Loads the sitemaps served by the "sitemaps" and "soft-404" fixture sites, plus
+// generated ones at the protocol limits that are too large to keep as fixtures
+
+let sitemaps: FixtureSite;
+let soft404: FixtureSite;
+let generated: string;
+let closeGenerated: () => Promise<void>;
+
+before(async () => {
+  [sitemaps, soft404] = await Promise.all([startFixtureSite("sitemaps"), startFixtureSite("soft-404")]);
+
+  const server = createServer((req, res) => {
+    if (req.url === "/too-many-urls.xml") {
+      const urls = Array.from({ length: SITEMAP_MAX_URLS + 1 }, (_, index) => `<url><loc>${generated}/page-${index}</loc></url>`);
+      res.writeHead(200, { "Content-Type": "application/xml" });
+      res.end(`<?xml version="1.0" encoding="UTF-8"?><urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">${urls.join("")}</urlset>`);
+    } else if (req.url === "/too-large.xml.gz") {
+      // Small on the wire, over the limit once decompressed
+      res.writeHead(200, { "Content-Type": "application/gzip" });
+      res.end(gzipSync(Buffer.alloc(SITEMAP_MAX_BYTES + 1024, " ")));
+    } else {
+      res.writeHead(404);
+      res.end();
+    }
+  });
+  generated = await listen(server);
+  closeGenerated = () => close(server);
+
+  process.env.OUTBOUND_ALLOWED_HOSTS = "127.0.0.1";
+});
+
+after(async () => {
+  delete process.env.OUTBOUND_ALLOWED_HOSTS;
+  await Promise.all([sitemaps.close(), soft404.close(), closeGenerated()]);
+});
+
+describe("loadSitemaps", () => {
+  it("follows sitemap indexes into gzipped and plain-text sitemaps", async () => {
+    const { files, urls } = await loadSitemaps([`${sitemaps.origin}/index.xml`]);
+
+    assert.deepEqual(files.map(file => [file.url.replace(sitemaps.origin, ""), file.type, file.compressed]), [
+      ["/index.xml", "sitemapindex", false],
+      ["/pages.xml", "urlset", false],
+      ["/posts.xml.gz", "urlset", true],
+      ["/nested.xml", "sitemapindex", false],
+      ["/links.txt", "text", false]
+    ]);
+    assert.ok(files.every(file => file.errors.length === 0), JSON.stringify(files));
+
+    const posts = urls.filter(url => url.sitemap === `${sitemaps.origin}/posts.xml.gz`);
+    assert.deepEqual(posts.map(url => url.loc), [`${sitemaps.origin}/posts/launch`, `${sitemaps.origin}/posts/update`]);
+    assert.deepEqual(urls.filter(url => url.sitemap.endsWith("/links.txt")).map(url => url.loc), [
+      `${sitemaps.origin}/contact`,
+      `${sitemaps.origin}/faq`
+    ]);
+  });
+
+  it("stops at the maximum index depth", async () => {
+    const { files } = await loadSitemaps([`${sitemaps.origin}/index.xml`], { maxFiles: 50, maxDepth: 1 });
+    assert.ok(!files.some(file => file.url.endsWith("/links.txt")));
+    assert.match(files.find(file => file.url.endsWith("/nested.xml"))!.errors[0], /nested deeper than 1 levels/);
+  });
+
+  it("reports invalid entries and keeps those with a usable <loc>", async () => {
+    const { urls, invalidEntries } = await loadSitemaps([`${sitemaps.origin}/index.xml`]);
+
+    assert.deepEqual(invalidEntries.map(entry => [entry.sitemap.replace(sitemaps.origin, ""), entry.reason]), [
+      ["/index.xml", 'Invalid URL "not a url"'],
+      ["/pages.xml", 'Invalid lastmod "yesterday"'],
+      ["/pages.xml", 'Unsupported URL scheme in "ftp://files.example.com/catalogue.pdf"'],
+      ["/pages.xml", "Missing <loc>"]
+    ]);
+    assert.ok(urls.some(url => url.loc === `${sitemaps.origin}/about`));
+    assert.ok(!urls.some(url => url.loc.startsWith("ftp:")));
+  });
+
+  it("flags sitemaps over the URL limit", async () => {
+    const { files, urls } = await loadSitemaps([`${generated}/too-many-urls.xml`]);
+    assert.equal(files[0].urlCount, SITEMAP_MAX_URLS + 1);
+    assert.deepEqual(files[0].errors, [`Sitemap lists ${SITEMAP_MAX_URLS + 1} URLs; the limit is ${SITEMAP_MAX_URLS}`]);
+    assert.equal(urls.length, SITEMAP_MAX_URLS + 1);
+  });
+
+  it("refuses sitemaps over the size limit once decompressed", async () => {
+    const { files, urls } = await loadSitemaps([`${generated}/too-large.xml.gz`]);
+    assert.equal(files[0].type, undefined);
+    assert.deepEqual(files[0].errors, ["Sitemap exceeds the 50MB size limit"]);
+    assert.deepEqual(urls, []);
+  });
+});
+
+describe("sitemap analysis", () => {
+  it("summarises the sitemaps robots.txt declares and flags URLs on other hosts", async () => {
+    const { robotsTxt, sitemap } = await analyzeRobots(`${sitemaps.origin}/`);
+
+    assert.deepEqual(robotsTxt.sitemaps, [`${sitemaps.origin}/index.xml`]);
+    assert.equal(sitemap.found, true);
+    assert.equal(sitemap.format, "sitemapindex");
+    assert.equal(sitemap.files?.length, 5);
+    assert.equal(sitemap.urlCount, 7);
+    assert.equal(sitemap.invalidEntryCount, 4);
+    assert.deepEqual(sitemap.otherHostUrls, ["http://127.0.0.2/elsewhere"]);
+    assert.equal(sitemap.otherHostCount, 1);
+  });
+});
+
+describe("error pages served as sitemaps", () => {
+  it("does not take an HTML page for a sitemap", async () => {
+    const { files, urls } = await loadSitemaps([`${soft404.origin}/sitemap.xml`]);
+    assert.equal(files[0].type, undefined);
+    assert.ok(files[0].sizeBytes > 0);
+    assert.match(files[0].errors[0], /Not a sitemap: expected <urlset> or <sitemapindex> but found <html>/);
+    assert.deepEqual(urls, []);
+  });
+
+  it("does not take plain text without URLs for a URL list", async () => {
+    const { files, invalidEntries } = await loadSitemaps([`${soft404.origin}/not-a-list.txt`]);
+    assert.equal(files[0].type, undefined);
+    assert.match(files[0].errors[0], /Not a sitemap/);
+    assert.deepEqual(invalidEntries, []);
+  });
+
+  it("reports the sitemap as missing", async () => {
+    const { sitemap } = await analyzeRobots(`${soft404.origin}/`);
+    assert.equal(sitemap.found, false);
+    assert.equal(sitemap.files?.length, 1);
+  });
+});
@@ -0,0 +1,252 @@
+import * as cheerio from "cheerio";
+import { gunzipSync } from "zlib";
+import { followRedirects } from "./http";
+
+// Limits from the sitemaps.org protocol, per file
+export const SITEMAP_MAX_URLS = 50000;
+export const SITEMAP_MAX_BYTES = 50 * 1024 * 1024;
+
+const CHANGEFREQ_VALUES = new Set(['always', 'hourly', 'daily', 'weekly', 'monthly', 'yearly', 'never']);
+// W3C Datetime: a date, optionally with a time and timezone
+const W3C_DATETIME = /^\d{4}(-\d{2}(-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2}))?)?)?$/;
+
+export interface SitemapUrl {
+  loc: string;
+  lastmod?: string;
+  changefreq?: string;
+  priority?: number;
+  images: string[];
+  alternates: { hreflang: string; href: string }[];
+  // The sitemap file the URL was listed in
+  sitemap: string;
+}
+
+export interface SitemapFile {
+  url: string;
+  // Unset when the file could not be loaded or is not a sitemap, e.g. an HTML error page served with 200
+  type?: 'urlset' | 'sitemapindex' | 'text';
+  urlCount: number;
+  sizeBytes: number;
+  compressed: boolean;
+  errors: string[];
+}
+
+export interface InvalidSitemapEntry {
+  sitemap: string;
+  entry: string;
+  reason: string;
+}
+
+export interface SitemapCollection {
+  files: SitemapFile[];
+  urls: SitemapUrl[];
+  invalidEntries: InvalidSitemapEntry[];
+}
+
+export interface LoadSitemapOptions {
+  // Guards against huge or circular sitemap indexes
+  maxFiles: number;
+  maxDepth: number;
+}
+
+export const DEFAULT_LOAD_SITEMAP_OPTIONS: LoadSitemapOptions = {
+  maxFiles: 50,
+  maxDepth: 3
+};
+
+// Loads every sitemap reachable from the given URLs, following sitemap indexes
+export async function loadSitemaps(
+  sitemapUrls: string[],
+  options: LoadSitemapOptions = DEFAULT_LOAD_SITEMAP_OPTIONS
+): Promise<SitemapCollection> {
+  const collection: SitemapCollection = { files: [], urls: [], invalidEntries: [] };
+  const seen = new Set<string>();
+  let queue = sitemapUrls.map(url => ({ url, depth: 0 }));
+
+  while (queue.length > 0 && collection.files.length < options.maxFiles) {
+    const { url, depth } = queue.shift()!;
+    if (seen.has(url)) continue;
+    seen.add(url);
+
+    const { file, children } = await loadSitemapFile(url, collection);
+    collection.files.push(file);
+
+    if (children.length > 0) {
+      if (depth >= options.maxDepth) {
+        file.errors.push(`Sitemap index nested deeper than ${options.maxDepth} levels; child sitemaps skipped`);
+      } else {
+        queue = queue.concat(children.map(child => ({ url: child, depth: depth + 1 })));
+      }
+    }
+  }
+
+  return collection;
+}
+
+async function loadSitemapFile(url: string, collection: SitemapCollection): Promise<{ file: SitemapFile; children: string[] }> {
+  const file: SitemapFile = { url, urlCount: 0, sizeBytes: 0, compressed: false, errors: [] };
+
+  let content: string;
+  try {
+    const { response } = await followRedirects<ArrayBuffer>({
+      url,
+      method: 'GET',
+      headers: {
+        'User-Agent': 'Mozilla/5.0 (compatible; SEO-Audit-Bot/1.0)',
+        'Accept': 'application/xml,text/xml,*/*'
+      },
+      timeout: 15000,
+      responseType: 'arraybuffer',
+      maxContentLength: SITEMAP_MAX_BYTES
+    });
+
+    if (response.status !== 200) {
+      file.errors.push(`HTTP ${response.status}`);
+      return { file, children: [] };
+    }
+
+    let body = Buffer.from(response.data);
+    // gzip magic bytes: .xml.gz files are still compressed after any Content-Encoding is undone
+    if (body[0] === 0x1f && body[1] === 0x8b) {
+      file.compressed = true;
+      body = gunzipSync(body, { maxOutputLength: SITEMAP_MAX_BYTES + 1 });
+    }
+
+    file.sizeBytes = body.length;
+    if (body.length > SITEMAP_MAX_BYTES) {
+      file.errors.push('Sitemap exceeds the 50MB uncompressed size limit');
+      return { file, children: [] };
+    }
+    content = body.toString('utf8');
+  } catch (error: any) {
+    file.errors.push(error.code === 'ERR_BUFFER_TOO_LARGE' || /maxContentLength/.test(error.message)
+      ? 'Sitemap exceeds the 50MB size limit'
+      : `Fetch failed: ${error.message}`);
+    return { file, children: [] };
+  }
+
+  const children = parseSitemap(content, file, collection);
+
+  if (file.urlCount > SITEMAP_MAX_URLS) {
+    file.errors.push(`Sitemap lists ${file.urlCount} URLs; the limit is ${SITEMAP_MAX_URLS}`);
+  }
+
+  return { file, children };
+}
+
+// Parses a urlset, sitemapindex or plain-text sitemap; returns child sitemaps of an index
+function parseSitemap(content: string, file: SitemapFile, collection: SitemapCollection): string[] {
+  const trimmed = content.trim();
+
+  if (!trimmed.startsWith('<')) {
+    const lines = trimmed.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+    if (!lines.some(line => !validateLoc(line))) {
+      file.errors.push('Not a sitemap: expected XML or a list of URLs');
+      return [];
+    }
+
+    file.type = 'text';
+    lines.forEach(line => {
+      file.urlCount++;
+      const reason = validateLoc(line);
+      if (reason) {
+        collection.invalidEntries.push({ sitemap: file.url, entry: line, reason });
+      } else {
+        collection.urls.push({ loc: line, images: [], alternates: [], sitemap: file.url });
+      }
+    });
+    return [];
+  }
+
+  const $ = cheerio.load(trimmed, { xml: true });
+  const root = $.root().children().filter((_, element) => element.type === 'tag').first();
+  const rootName = localName(root.prop('tagName') || '');
+
+  if (rootName === 'sitemapindex') {
+    file.type = 'sitemapindex';
+    const children: string[] = [];
+
+    childElements($, root, 'sitemap').forEach(entry => {
+      file.urlCount++;
+      const loc = childText($, entry, 'loc');
+      const reason = validateLoc(loc);
+      if (reason) {
+        collection.invalidEntries.push({ sitemap: file.url, entry: loc || $.xml(entry).substring(0, 200), reason });
+      } else {
+        children.push(loc);
+      }
+    });
+    return children;
+  }
+
+  if (rootName !== 'urlset') {
+    file.errors.push(`Not a sitemap: expected <urlset> or <sitemapindex> but found <${rootName || 'nothing'}>`);
+    return [];
+  }
+
+  file.type = 'urlset';
+  childElements($, root, 'url').forEach(entry => {
+    file.urlCount++;
+    const loc = childText($, entry, 'loc');
+    const lastmod = childText($, entry, 'lastmod') || undefined;
+    const changefreq = childText($, entry, 'changefreq') || undefined;
+    const priorityText = childText($, entry, 'priority');
+    const priority = priorityText ? Number(priorityText) : undefined;
+
+    const locError = validateLoc(loc);
+    const reasons = [
+      locError,
+      lastmod && !W3C_DATETIME.test(lastmod) ? `Invalid lastmod "${lastmod}"` : undefined,
+      changefreq && !CHANGEFREQ_VALUES.has(changefreq.toLowerCase()) ? `Invalid changefreq "${changefreq}"` : undefined,
+      priority !== undefined && !(priority >= 0 && priority <= 1) ? `Invalid priority "${priorityText}"` : undefined
+    ].filter((reason): reason is string => !!reason);
+
+    if (reasons.length > 0) {
+      collection.invalidEntries.push({ sitemap: file.url, entry: loc || $.xml(entry).substring(0, 200), reason: reasons.join('; ') });
+      if (locError) return;
+    }
+
+    collection.urls.push({
+      loc,
+      lastmod,
+      changefreq,
+      priority,
+      // image:image/image:loc
+      images: childElements($, $(entry), 'image').map(image => childText($, image, 'loc')).filter(Boolean),
+      // xhtml:link rel="alternate" hreflang="..."
+      alternates: childElements($, $(entry), 'link')
+        .filter(link => $(link).attr('hreflang') && $(link).attr('href'))
+        .map(link => ({ hreflang: $(link).attr('hreflang')!, href: $(link).attr('href')! })),
+      sitemap: file.url
+    });
+  });
+
+  return [];
+}
+
+function validateLoc(loc: string): string | undefined {
+  if (!loc) return 'Missing <loc>';
+  try {
+    const url = new URL(loc);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      return `Unsupported URL scheme in "${loc}"`;
+    }
+  } catch (error) {
+    return `Invalid URL "${loc}"`;
+  }
+  return undefined;
+}
+
+// Namespace prefixes vary between generators, so elements are matched by local name
+function childElements($: cheerio.CheerioAPI, parent: cheerio.Cheerio<any>, name: string): any[] {
+  return parent.children().toArray().filter(element => localName(element.tagName || '') === name);
+}
+
+function childText($: cheerio.CheerioAPI, parent: any, name: string): string {
+  const child = childElements($, $(parent), name)[0];
+  return child ? $(child).text().trim() : '';
+}
+
+function localName(tagName: string): string {
+  return tagName.toLowerCase().split(':').pop() || '';
+}
@@ -1,21 +1,89 @@
-import { users, type User, type InsertUser } from "@shared/schema";
+import { and, asc, desc, eq, inArray, lt, lte } from "drizzle-orm";
+import {
+  users,
+  audits,
+  auditRecommendations,
+  auditMetaItems,
+  auditSchedules,
+  auditProfiles,
+  type User,
+  type InsertUser,
+  type AuditResult,
+  type StoredAudit,
+  type Audit,
+  type AuditRecommendationRow,
+  type AuditMetaItemRow,
+  type MetaTagItem,
+  type Recommendation,
+  type AuditSchedule,
+  type InsertSchedule,
+  type AuditProfile,
+  type InsertAuditProfile,
+  type UpdateAuditProfile,
+} from "@shared/schema";
+import { getAnalyzers } from "./analyzers";
+import { createDatabase, type Database } from "./db";
 
 // modify the interface with any CRUD methods
 // you might need
 
+export interface ListAuditsOptions {
+  url?: string;
+  domain?: string;
+  limit?: number;
+}
+
+export type ScheduleChanges = Partial<Omit<AuditSchedule, "id" | "createdAt">>;
+
+// Profile names are unique; routes answer 409 for both storages
+export class DuplicateProfileError extends Error {
+  constructor(name: string) {
+    super(`Audit profile "${name}" already exists`);
+    this.name = "DuplicateProfileError";
+  }
+}
+
 export interface IStorage {
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  saveAudit(audit: AuditResult): Promise<StoredAudit>;
+  getAudit(id: number): Promise<StoredAudit | undefined>;
+  listAudits(options?: ListAuditsOptions): Promise<StoredAudit[]>;
+  getPreviousAudit(audit: StoredAudit): Promise<StoredAudit | undefined>;
+  createSchedule(schedule: InsertSchedule, nextRunAt: Date): Promise<AuditSchedule>;
+  getSchedule(id: number): Promise<AuditSchedule | undefined>;
+  listSchedules(): Promise<AuditSchedule[]>;
+  getDueSchedules(now: Date): Promise<AuditSchedule[]>;
+  updateSchedule(id: number, changes: ScheduleChanges): Promise<AuditSchedule | undefined>;
+  deleteSchedule(id: number): Promise<boolean>;
+  createProfile(profile: InsertAuditProfile): Promise<AuditProfile>;
+  getProfile(id: number): Promise<AuditProfile | undefined>;
+  getProfileByName(name: string): Promise<AuditProfile | undefined>;
+  listProfiles(): Promise<AuditProfile[]>;
+  updateProfile(id: number, changes: UpdateAuditProfile): Promise<AuditProfile | undefined>;
+  deleteProfile(id: number): Promise<boolean>;
 }
 
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
+  private audits: Map<number, StoredAudit>;
+  private schedules: Map<number, AuditSchedule>;
+  private profiles: Map<number, AuditProfile>;
   currentId: number;
+  currentAuditId: number;
+  currentScheduleId: number;
+  currentProfileId: number;
 
   constructor() {
     this.users = new Map();
+    this.audits = new Map();
+    this.schedules = new Map();
+    this.profiles = new Map();
     this.currentId = 1;
+    this.currentAuditId = 1;
+    this.currentScheduleId = 1;
+    this.currentProfileId = 1;
   }
 
   async getUser(id: number): Promise<User | undefined> {
@@ -34,6 +102,419 @@ export class MemStorage implements IStorage {
     this.users.set(id, user);
     return user;
   }
+
+  async saveAudit(audit: AuditResult): Promise<StoredAudit> {
+    const id = this.currentAuditId++;
+    const stored: StoredAudit = { ...audit, id };
+    this.audits.set(id, stored);
+    return stored;
+  }
+
+  async getAudit(id: number): Promise<StoredAudit | undefined> {
+    return this.audits.get(id);
+  }
+
+  async listAudits({ url, domain, limit = 50 }: ListAuditsOptions = {}): Promise<StoredAudit[]> {
+    return Array.from(this.audits.values())
+      .filter((audit) => !url || audit.url === url)
+      .filter((audit) => !domain || getDomain(audit.url) === domain)
+      .sort((a, b) => b.timestamp.localeCompare(a.timestamp) || b.id - a.id)
+      .slice(0, limit);
+  }
+
+  async getPreviousAudit(audit: StoredAudit): Promise<StoredAudit | undefined> {
+    return Array.from(this.audits.values())
+      .filter((other) => other.url === audit.url && other.id < audit.id)
+      .sort((a, b) => b.id - a.id)[0];
+  }
+
+  async createSchedule(insertSchedule: InsertSchedule, nextRunAt: Date): Promise<AuditSchedule> {
+    const id = this.currentScheduleId++;
+    const schedule: AuditSchedule = {
+      id,
+      url: insertSchedule.url,
+      frequency: insertSchedule.frequency,
+      enabled: insertSchedule.enabled ?? true,
+      nextRunAt,
+      lastRunAt: null,
+      lastAuditId: null,
+      lastError: null,
+      createdAt: new Date(),
+    };
+    this.schedules.set(id, schedule);
+    return schedule;
+  }
+
+  async getSchedule(id: number): Promise<AuditSchedule | undefined> {
+    return this.schedules.get(id);
+  }
+
+  async listSchedules(): Promise<AuditSchedule[]> {
+    return Array.from(this.schedules.values());
+  }
+
+  async getDueSchedules(now: Date): Promise<AuditSchedule[]> {
+    return Array.from(this.schedules.values()).filter(
+      (schedule) => schedule.enabled && schedule.nextRunAt <= now,
+    );
+  }
+
+  async updateSchedule(id: number, changes: ScheduleChanges): Promise<AuditSchedule | undefined> {
+    const schedule = this.schedules.get(id);
+    if (!schedule) {
+      return undefined;
+    }
+    const updated = { ...schedule, ...changes };
+    this.schedules.set(id, updated);
+    return updated;
+  }
+
+  async deleteSchedule(id: number): Promise<boolean> {
+    return this.schedules.delete(id);
+  }
+
+  async createProfile(insertProfile: InsertAuditProfile): Promise<AuditProfile> {
+    if (await this.getProfileByName(insertProfile.name)) {
+      throw new DuplicateProfileError(insertProfile.name);
+    }
+    const id = this.currentProfileId++;
+    const profile: AuditProfile = { ...insertProfile, id, createdAt: new Date() };
+    this.profiles.set(id, profile);
+    return profile;
+  }
+
+  async getProfile(id: number): Promise<AuditProfile | undefined> {
+    return this.profiles.get(id);
+  }
+
+  async getProfileByName(name: string): Promise<AuditProfile | undefined> {
+    return Array.from(this.profiles.values()).find((profile) => profile.name === name);
+  }
+
+  async listProfiles(): Promise<AuditProfile[]> {
+    return Array.from(this.profiles.values());
+  }
+
+  async updateProfile(id: number, changes: UpdateAuditProfile): Promise<AuditProfile | undefined> {
+    const profile = this.profiles.get(id);
+    if (!profile) {
+      return undefined;
+    }
+    if (changes.name && changes.name !== profile.name && await this.getProfileByName(changes.name)) {
+      throw new DuplicateProfileError(changes.name);
+    }
+    const updated = { ...profile, ...changes };
+    this.profiles.set(id, updated);
+    return updated;
+  }
+
+  async deleteProfile(id: number): Promise<boolean> {
+    return this.profiles.delete(id);
+  }
+}
+
+export class DatabaseStorage implements IStorage {
+  constructor(private db: Database) {}
+
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async saveAudit(audit: AuditResult): Promise<StoredAudit> {
+    const id = await this.db.transaction(async (tx) => {
+      const [row] = await tx.insert(audits).values({
+        url: audit.url,
+        domain: getDomain(audit.url),
+        timestamp: new Date(audit.timestamp),
+        overallScore: audit.scores.overall,
+        technicalScore: audit.scores.technical,
+        contentScore: audit.scores.content,
+        performanceScore: audit.scores.performance,
+        mobileScore: audit.scores.mobile,
+        results: collectAnalyzerResults(audit),
+        estimatedScores: audit.estimatedScores,
+        scoreBreakdown: audit.scoreBreakdown,
+        profile: audit.profile,
+        errors: audit.errors,
+      }).returning({ id: audits.id });
+
+      const recommendations = audit.recommendations || [];
+      if (recommendations.length > 0) {
+        await tx.insert(auditRecommendations).values(
+          recommendations.map((rec, position) => ({ ...rec, auditId: row.id, position })),
+        );
+      }
+
+      const metaItems = audit.meta?.items || [];
+      if (metaItems.length > 0) {
+        await tx.insert(auditMetaItems).values(
+          metaItems.map((item, position) => ({ ...item, auditId: row.id, position })),
+        );
+      }
+
+      return row.id;
+    });
+
+    return { ...audit, id };
+  }
+
+  async getAudit(id: number): Promise<StoredAudit | undefined> {
+    const [row] = await this.db.select().from(audits).where(eq(audits.id, id));
+    if (!row) {
+      return undefined;
+    }
+    const [stored] = await this.hydrateAudits([row]);
+    return stored;
+  }
+
+  async listAudits({ url, domain, limit = 50 }: ListAuditsOptions = {}): Promise<StoredAudit[]> {
+    const rows = await this.db
+      .select()
+      .from(audits)
+      .where(and(
+        url ? eq(audits.url, url) : undefined,
+        domain ? eq(audits.domain, domain) : undefined,
+      ))
+      .orderBy(desc(audits.timestamp), desc(audits.id))
+      .limit(limit);
+
+    return this.hydrateAudits(rows);
+  }
+
+  async getPreviousAudit(audit: StoredAudit): Promise<StoredAudit | undefined> {
+    const [row] = await this.db
+      .select()
+      .from(audits)
+      .where(and(eq(audits.url, audit.url), lt(audits.id, audit.id)))
+      .orderBy(desc(audits.id))
+      .limit(1);
+
+    if (!row) {
+      return undefined;
+    }
+    const [stored] = await this.hydrateAudits([row]);
+    return stored;
+  }
+
+  async createSchedule(insertSchedule: InsertSchedule, nextRunAt: Date): Promise<AuditSchedule> {
+    const [schedule] = await this.db
+      .insert(auditSchedules)
+      .values({ ...insertSchedule, nextRunAt })
+      .returning();
+    return schedule;
+  }
+
+  async getSchedule(id: number): Promise<AuditSchedule | undefined> {
+    const [schedule] = await this.db.select().from(auditSchedules).where(eq(auditSchedules.id, id));
+    return schedule;
+  }
+
+  async listSchedules(): Promise<AuditSchedule[]> {
+    return this.db.select().from(auditSchedules).orderBy(asc(auditSchedules.id));
+  }
+
+  async getDueSchedules(now: Date): Promise<AuditSchedule[]> {
+    return this.db
+      .select()
+      .from(auditSchedules)
+      .where(and(eq(auditSchedules.enabled, true), lte(auditSchedules.nextRunAt, now)));
+  }
+
+  async updateSchedule(id: number, changes: ScheduleChanges): Promise<AuditSchedule | undefined> {
+    // Drizzle refuses an UPDATE without values; like MemStorage, nothing to change returns the schedule as is
+    if (!hasChanges(changes)) {
+      return this.getSchedule(id);
+    }
+    const [schedule] = await this.db
+      .update(auditSchedules)
+      .set(changes)
+      .where(eq(auditSchedules.id, id))
+      .returning();
+    return schedule;
+  }
+
+  async deleteSchedule(id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(auditSchedules)
+      .where(eq(auditSchedules.id, id))
+      .returning({ id: auditSchedules.id });
+    return deleted.length > 0;
+  }
+
+  async createProfile(insertProfile: InsertAuditProfile): Promise<AuditProfile> {
+    try {
+      const [profile] = await this.db.insert(auditProfiles).values(insertProfile).returning();
+      return profile;
+    } catch (error) {
+      throw isUniqueViolation(error) ? new DuplicateProfileError(insertProfile.name) : error;
+    }
+  }
+
+  async getProfile(id: number): Promise<AuditProfile | undefined> {
+    const [profile] = await this.db.select().from(auditProfiles).where(eq(auditProfiles.id, id));
+    return profile;
+  }
+
+  async getProfileByName(name: string): Promise<AuditProfile | undefined> {
+    const [profile] = await this.db.select().from(auditProfiles).where(eq(auditProfiles.name, name));
+    return profile;
+  }
+
+  async listProfiles(): Promise<AuditProfile[]> {
+    return this.db.select().from(auditProfiles).orderBy(asc(auditProfiles.name));
+  }
+
+  async updateProfile(id: number, changes: UpdateAuditProfile): Promise<AuditProfile | undefined> {
+    if (!hasChanges(changes)) {
+      return this.getProfile(id);
+    }
+    try {
+      const [profile] = await this.db
+        .update(auditProfiles)
+        .set(changes)
+        .where(eq(auditProfiles.id, id))
+        .returning();
+      return profile;
+    } catch (error) {
+      throw isUniqueViolation(error) && changes.name ? new DuplicateProfileError(changes.name) : error;
+    }
+  }
+
+  async deleteProfile(id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(auditProfiles)
+      .where(eq(auditProfiles.id, id))
+      .returning({ id: auditProfiles.id });
+    return deleted.length > 0;
+  }
+
+  // Loads the child tables of all the audits with one query each rather than per audit
+  private async hydrateAudits(rows: Audit[]): Promise<StoredAudit[]> {
+    if (rows.length === 0) {
+      return [];
+    }
+
+    const ids = rows.map((row) => row.id);
+    const [recommendations, metaItems] = await Promise.all([
+      this.db
+        .select()
+        .from(auditRecommendations)
+        .where(inArray(auditRecommendations.auditId, ids))
+        .orderBy(asc(auditRecommendations.position)),
+      this.db
+        .select()
+        .from(auditMetaItems)
+        .where(inArray(auditMetaItems.auditId, ids))
+        .orderBy(asc(auditMetaItems.position)),
+    ]);
+
+    const recommendationsByAudit = groupByAuditId(recommendations);
+    const metaItemsByAudit = groupByAuditId(metaItems);
+    return rows.map((row) => this.toStoredAudit(
+      row,
+      recommendationsByAudit.get(row.id) || [],
+      metaItemsByAudit.get(row.id) || [],
+    ));
+  }
+
+  // Reassembles an AuditResult from the audit row and its child table rows
+  private toStoredAudit(row: Audit, recommendations: AuditRecommendationRow[], metaItems: AuditMetaItemRow[]): StoredAudit {
+    const audit: StoredAudit = {
+      id: row.id,
+      url: row.url,
+      timestamp: row.timestamp.toISOString(),
+      scores: {
+        overall: row.overallScore,
+        technical: row.technicalScore,
+        content: row.contentScore,
+        performance: row.performanceScore,
+        mobile: row.mobileScore,
+      },
+      recommendations: recommendations.map(toRecommendation),
+    };
+
+    if (metaItems.length > 0) audit.meta = { items: metaItems.map(toMetaTagItem) };
+    if (row.results) Object.assign(audit, row.results);
+    if (row.profile) audit.profile = row.profile;
+    if (row.scoreBreakdown) audit.scoreBreakdown = row.scoreBreakdown as StoredAudit["scoreBreakdown"];
+    if (row.estimatedScores) audit.estimatedScores = row.estimatedScores as StoredAudit["estimatedScores"];
+    if (row.errors) audit.errors = row.errors;
+
+    return audit;
+  }
+}
+
+// Registered analyzers are stored without a column of their own; meta items go to audit_meta_items
+function collectAnalyzerResults(audit: AuditResult): Record<string, unknown> {
+  const results: Record<string, unknown> = {};
+  getAnalyzers().forEach((analyzer) => {
+    const result = (audit as Record<string, unknown>)[analyzer.id];
+    if (analyzer.id !== "meta" && result !== undefined) {
+      results[analyzer.id] = result;
+    }
+  });
+  return results;
+}
+
+function hasChanges(changes: object): boolean {
+  return Object.values(changes).some((value) => value !== undefined);
+}
+
+// Postgres unique_violation; newer drizzle versions wrap the driver error
+function isUniqueViolation(error: any): boolean {
+  return (error?.code ?? error?.cause?.code) === "23505";
+}
+
+// Rows keep their order within each audit
+function groupByAuditId<T extends { auditId: number }>(rows: T[]): Map<number, T[]> {
+  const groups = new Map<number, T[]>();
+  rows.forEach((row) => {
+    const group = groups.get(row.auditId);
+    if (group) {
+      group.push(row);
+    } else {
+      groups.set(row.auditId, [row]);
+    }
+  });
+  return groups;
+}
+
+function getDomain(url: string): string {
+  return new URL(url).hostname;
+}
+
+function toRecommendation(row: AuditRecommendationRow): Recommendation {
+  return {
+    title: row.title,
+    description: row.description,
+    priority: row.priority as Recommendation["priority"],
+    category: row.category,
+  };
+}
+
+function toMetaTagItem(row: AuditMetaItemRow): MetaTagItem {
+  const item: MetaTagItem = {
+    name: row.name,
+    status: row.status as MetaTagItem["status"],
+    description: row.description,
+  };
+  if (row.value !== null) item.value = row.value;
+  if (row.length !== null) item.length = row.length;
+  return item;
 }
 
-export const storage = new MemStorage();
+// Use Postgres when a database is provisioned, otherwise keep everything in memory
+export const storage: IStorage = process.env.DATABASE_URL
+  ? new DatabaseStorage(createDatabase(process.env.DATABASE_URL))
+  : new MemStorage();
@@ -0,0 +1,96 @@
+import { createServer, type Server } from "http";
+import { readFile } from "fs/promises";
+import path from "path";
+import { fileURLToPath } from "url";
+import { gunzipSync, gzipSync } from "zlib";
+
+const SITES_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), "fixtures", "sites");
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".html": "text/html; charset=utf-8",
+  ".xml": "application/xml",
+  ".txt": "text/plain",
+  ".js": "application/javascript",
+  ".css": "text/css",
+  ".jpg": "image/jpeg",
+  ".png": "image/png",
+  ".gz": "application/gzip"
+};
+
+// Text fixtures mention their own origin, which is only known once the port is; so can gzipped ones
+const TEMPLATED = new Set([".html", ".xml", ".txt"]);
+
+export interface FixtureSite {
+  origin: string;
+  close(): Promise<void>;
+}
+
+// Serves server/test/fixtures/sites/<name> on a free port; "/about" maps to about.html and
+// paths listed in the site's redirects.json answer with a 302 to the given location
+export async function startFixtureSite(name: string): Promise<FixtureSite> {
+  const root = path.join(SITES_DIR, name);
+  const redirects: Record<string, string> = await readFile(path.join(root, "redirects.json"), "utf8")
+    .then(JSON.parse, () => ({}));
+  let origin = "";
+
+  const server = createServer(async (req, res) => {
+    const pathname = decodeURIComponent(new URL(req.url || "/", origin).pathname);
+    if (redirects[pathname]) {
+      res.writeHead(302, { Location: redirects[pathname].split("{{origin}}").join(origin) });
+      res.end();
+      return;
+    }
+
+    const relative = pathname === "/" ? "index.html" : pathname.slice(1);
+    const candidates = path.extname(relative) ? [relative] : [relative, `${relative}.html`];
+
+    for (const candidate of candidates) {
+      const file = path.join(root, candidate);
+      if (!file.startsWith(root + path.sep)) break;
+
+      try {
+        const extension = path.extname(file);
+        let body: Buffer | string = await readFile(file);
+        if (TEMPLATED.has(extension)) {
+          body = body.toString("utf8").split("{{origin}}").join(origin);
+        } else if (extension === ".gz") {
+          body = gzipSync(gunzipSync(body).toString("utf8").split("{{origin}}").join(origin));
+        }
+        res.writeHead(200, { "Content-Type": CONTENT_TYPES[extension] || "application/octet-stream" });
+        res.end(body);
+        return;
+      } catch (error) {
+        // Try the next candidate
+      }
+    }
+
+    res.writeHead(404, { "Content-Type": "text/html; charset=utf-8" });
+    res.end("<h1>Not found</h1>");
+  });
+
+  origin = await listen(server);
+  return { origin, close: () => close(server) };
+}
+
+// Any 127.x.x.x address works on Linux, for tests that need a second hostname
+export function listen(server: Server, port = 0, host = "127.0.0.1"): Promise<string> {
+  return new Promise((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(port, host, () => {
+      const address = server.address();
+      if (!address || typeof address === "string") {
+        reject(new Error("Server has no TCP address"));
+        return;
+      }
+      resolve(`http://${host}:${address.port}`);
+    });
+  });
+}
+
+export function close(server: Server): Promise<void> {
+  return new Promise((resolve, reject) => {
+    // Keep-alive sockets from axios would otherwise hold the server open
+    server.closeAllConnections();
+    server.close(error => error ? reject(error) : resolve());
+  });
+}
@@ -0,0 +1,94 @@
+import { createServer } from "http";
+import { readFile } from "fs/promises";
+import path from "path";
+import { fileURLToPath } from "url";
+import { close, listen } from "./fixture-site";
+
+const FIXTURES_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), "fixtures", "pagespeed");
+const RUN_PAGESPEED_PATH = "/pagespeedonline/v5/runPagespeed";
+
+export interface PageSpeedRequest {
+  url: string;
+  strategy: string;
+  key: string | null;
+  categories: string[];
+}
+
+export interface PageSpeedStub {
+  // Value for PAGESPEED_API_URL
+  endpoint: string;
+  requests: PageSpeedRequest[];
+  // When set, every request is answered with this status, as during an outage
+  failWith?: number;
+  close(): Promise<void>;
+}
+
+// Serves the recorded runPagespeed responses in fixtures/pagespeed/<strategy>.json,
+// rewritten for the requested URL, and rejects requests the real API would reject
+export async function startPageSpeedStub(port = 0): Promise<PageSpeedStub> {
+  const requests: PageSpeedRequest[] = [];
+  let stub: PageSpeedStub;
+
+  const server = createServer(async (req, res) => {
+    const target = new URL(req.url || "/", "http://localhost");
+    const sendError = (code: number, message: string) => {
+      res.writeHead(code, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: { code, message } }));
+    };
+
+    if (req.method !== "GET" || target.pathname !== RUN_PAGESPEED_PATH) {
+      return sendError(404, `No stubbed endpoint for ${req.method} ${target.pathname}`);
+    }
+
+    const request: PageSpeedRequest = {
+      url: target.searchParams.get("url") || "",
+      strategy: target.searchParams.get("strategy") || "desktop",
+      key: target.searchParams.get("key"),
+      // axios serialises arrays as category[]=...
+      categories: [...target.searchParams.getAll("category"), ...target.searchParams.getAll("category[]")]
+    };
+    requests.push(request);
+
+    if (stub.failWith) {
+      return sendError(stub.failWith, "Backend error");
+    }
+
+    if (!request.key) {
+      return sendError(403, "The request is missing a valid API key.");
+    }
+
+    let pageUrl: URL;
+    try {
+      pageUrl = new URL(request.url);
+    } catch (error) {
+      return sendError(400, "Invalid value at 'url'");
+    }
+
+    let fixture: string;
+    try {
+      fixture = await readFile(path.join(FIXTURES_DIR, `${path.basename(request.strategy)}.json`), "utf8");
+    } catch (error) {
+      return sendError(400, `Invalid value at 'strategy' (${request.strategy})`);
+    }
+
+    res.writeHead(200, { "Content-Type": "application/json; charset=UTF-8" });
+    res.end(fixture
+      .split("{{url}}").join(pageUrl.href)
+      .split("{{origin}}").join(pageUrl.origin));
+  });
+
+  const origin = await listen(server, port);
+  stub = {
+    endpoint: `${origin}${RUN_PAGESPEED_PATH}`,
+    requests,
+    close: () => close(server)
+  };
+  return stub;
+}
+
+// `tsx server/test/pagespeed-stub.ts` runs the stub on its own, e.g. to try the results UI offline
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  startPageSpeedStub(Number(process.env.PORT) || 5055).then(stub => {
+    console.log(`PageSpeed stub listening; start the app with PAGESPEED_API_URL=${stub.endpoint} and any PAGESPEED_API_KEY`);
+  });
+}
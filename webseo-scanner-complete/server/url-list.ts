@@ -0,0 +1,19 @@
+import { parseCsv } from "./csv";
+
+// One URL per row, from a `url` column when there is a header naming one, otherwise the first column
+export function parseUrlList(text: string): string[] {
+  const rows = parseCsv(text);
+  const urlColumn = (rows[0] || []).findIndex(cell => /^urls?$/i.test(cell.trim()));
+  return urlColumn >= 0
+    ? rows.slice(1).map(row => row[urlColumn] || "")
+    : rows.map(row => row[0] || "");
+}
+
+// Bare domains get https:// like in the audit form; blanks and duplicates are dropped
+export function normalizeUrls(values: string[]): string[] {
+  const urls = values
+    .map(value => value.trim())
+    .filter(Boolean)
+    .map(value => /^[a-z][a-z0-9+.-]*:\/\//i.test(value) ? value : `https://${value}`);
+  return Array.from(new Set(urls));
+}
@@ -17,9 +17,134 @@ export const insertUserSchema = createInsertSchema(users).pick({
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 
+// Persisted audit results
+export const audits = pgTable("audits", {
+  id: serial("id").primaryKey(),
+  url: text("url").notNull(),
+  domain: text("domain").notNull(),
+  timestamp: timestamp("timestamp").notNull(),
+  overallScore: integer("overall_score").notNull(),
+  technicalScore: integer("technical_score").notNull(),
+  contentScore: integer("content_score").notNull(),
+  performanceScore: integer("performance_score").notNull(),
+  mobileScore: integer("mobile_score").notNull(),
+  // Each analyzer's result keyed by analyzer id, apart from meta items which have their own table
+  results: jsonb("results").$type<Record<string, unknown>>(),
+  estimatedScores: jsonb("estimated_scores").$type<string[]>(),
+  scoreBreakdown: jsonb("score_breakdown"),
+  profile: text("profile"),
+  errors: jsonb("errors").$type<string[]>(),
+});
+
+export const auditRecommendations = pgTable("audit_recommendations", {
+  id: serial("id").primaryKey(),
+  auditId: integer("audit_id").notNull().references(() => audits.id, { onDelete: "cascade" }),
+  position: integer("position").notNull(),
+  title: text("title").notNull(),
+  description: text("description").notNull(),
+  priority: text("priority").notNull(),
+  category: text("category").notNull(),
+});
+
+export const auditMetaItems = pgTable("audit_meta_items", {
+  id: serial("id").primaryKey(),
+  auditId: integer("audit_id").notNull().references(() => audits.id, { onDelete: "cascade" }),
+  position: integer("position").notNull(),
+  name: text("name").notNull(),
+  status: text("status").notNull(),
+  description: text("description").notNull(),
+  value: text("value"),
+  length: integer("length"),
+});
+
+// Recurring audits run by the in-process scheduler
+export const auditSchedules = pgTable("audit_schedules", {
+  id: serial("id").primaryKey(),
+  url: text("url").notNull(),
+  frequency: text("frequency").notNull(),
+  enabled: boolean("enabled").notNull().default(true),
+  nextRunAt: timestamp("next_run_at").notNull(),
+  lastRunAt: timestamp("last_run_at"),
+  lastAuditId: integer("last_audit_id"),
+  lastError: text("last_error"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Named rule sets for audits: which analyzers run and the thresholds they use
+export const auditProfiles = pgTable("audit_profiles", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  settings: jsonb("settings").$type<AuditSettings>().notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertAuditSchema = createInsertSchema(audits).omit({ id: true });
+
+export type InsertAudit = z.infer<typeof insertAuditSchema>;
+export type Audit = typeof audits.$inferSelect;
+export type AuditRecommendationRow = typeof auditRecommendations.$inferSelect;
+export type AuditMetaItemRow = typeof auditMetaItems.$inferSelect;
+
+export const scheduleFrequencySchema = z.enum(['hourly', 'daily', 'weekly']);
+
+export const insertScheduleSchema = createInsertSchema(auditSchedules).pick({
+  url: true,
+  frequency: true,
+  enabled: true,
+}).extend({
+  url: z.string().url("Invalid URL format"),
+  frequency: scheduleFrequencySchema,
+});
+
+export const updateScheduleSchema = insertScheduleSchema.partial();
+
+export type ScheduleFrequency = z.infer<typeof scheduleFrequencySchema>;
+export type InsertSchedule = z.infer<typeof insertScheduleSchema>;
+export type UpdateSchedule = z.infer<typeof updateScheduleSchema>;
+export type AuditSchedule = typeof auditSchedules.$inferSelect;
+
+const lengthRangeSchema = (min: number, max: number) => z.object({
+  min: z.number().int().min(0),
+  max: z.number().int().min(1),
+}).refine((range) => range.min <= range.max, {
+  message: "min must not be greater than max",
+}).default({ min, max });
+
+// Thresholds and switches for one audit; omitted fields keep the built-in defaults
+export const auditSettingsSchema = z.object({
+  // Analyzer ids to skip, e.g. "speed"
+  disabledAnalyzers: z.array(z.string()).default([]),
+  title: lengthRangeSchema(30, 60),
+  description: lengthRangeSchema(120, 160),
+  h1: z.object({
+    maxCount: z.number().int().min(1).default(1),
+    maxLength: z.number().int().min(1).default(70),
+  }).default({}),
+  openGraph: z.object({
+    required: z.array(z.string().regex(/^og:/, "Open Graph properties start with og:")).default(['og:title', 'og:description', 'og:image', 'og:url']),
+  }).default({}),
+  // Sites that don't care about Twitter/X previews can drop the check
+  twitterCards: z.boolean().default(true),
+  securityHeaders: z.array(z.string().min(1)).default(['Strict-Transport-Security', 'X-Content-Type-Options', 'X-Frame-Options', 'Content-Security-Policy']),
+});
+
+export const insertAuditProfileSchema = z.object({
+  name: z.string().min(1).max(64).regex(/^[a-z0-9][a-z0-9_-]*$/i, "Use letters, digits, hyphens and underscores"),
+  settings: auditSettingsSchema.default({}),
+});
+
+export const updateAuditProfileSchema = insertAuditProfileSchema.partial();
+
+export type AuditSettings = z.infer<typeof auditSettingsSchema>;
+export type InsertAuditProfile = z.infer<typeof insertAuditProfileSchema>;
+export type UpdateAuditProfile = z.infer<typeof updateAuditProfileSchema>;
+export type AuditProfile = typeof auditProfiles.$inferSelect;
+
 // SEO Audit related schemas
 export const auditRequestSchema = z.object({
   url: z.string().url("Invalid URL format"),
+  // Name of a stored audit profile; the built-in defaults apply without one
+  profile: z.string().min(1).optional(),
 });
 
 export const scoreSchema = z.object({
@@ -38,6 +163,132 @@ export const metaTagItemSchema = z.object({
   length: z.number().optional(),
 });
 
+export const scoreCategorySchema = z.enum(['technical', 'content', 'performance', 'mobile']);
+
+// How scores are computed; every field has a default so a profile file only lists what it changes
+export const scoringProfileSchema = z.object({
+  name: z.string().min(1).default('default'),
+  // Weight of each category in the overall score
+  categories: z.object({
+    technical: z.number().min(0).default(1),
+    content: z.number().min(0).default(1),
+    performance: z.number().min(0).default(1),
+    mobile: z.number().min(0).default(1),
+  }).default({}),
+  // Share of a check's weight earned at each status
+  severity: z.object({
+    good: z.number().min(0).max(1).default(1),
+    warning: z.number().min(0).max(1).default(0.5),
+    error: z.number().min(0).max(1).default(0),
+  }).default({}),
+  // Weights by check id ("meta.title-tag") or for a whole analyzer ("headers.*"); 0 disables a check
+  checks: z.record(z.string(), z.number().min(0)).default({}),
+  defaultWeight: z.number().min(0).default(1),
+  // "penalize" scores an analyzer that failed to run as an error in its category
+  failedAnalyzers: z.enum(['penalize', 'exclude']).default('penalize'),
+});
+
+export const scoreCheckSchema = z.object({
+  id: z.string(),
+  analyzer: z.string(),
+  label: z.string(),
+  status: z.enum(['good', 'warning', 'error']),
+  // Measured 0-100 score for checks that aren't pass/fail, e.g. Lighthouse performance
+  value: z.number().optional(),
+  weight: z.number(),
+  points: z.number(),
+});
+
+export const categoryBreakdownSchema = z.object({
+  // Null when no check contributed to the category
+  score: z.number().nullable(),
+  weight: z.number(),
+  checks: z.array(scoreCheckSchema),
+});
+
+export const scoreBreakdownSchema = z.object({
+  profile: z.string(),
+  technical: categoryBreakdownSchema,
+  content: categoryBreakdownSchema,
+  performance: categoryBreakdownSchema,
+  mobile: categoryBreakdownSchema,
+});
+
+// Server-side measurements used when PageSpeed Insights isn't available
+export const localPerformanceSchema = z.object({
+  ttfbMs: z.number(),
+  htmlBytes: z.number(),
+  totalBytes: z.number(),
+  compression: z.string().nullable(),
+  httpVersion: z.enum(['h2', 'http/1.1']),
+  renderBlocking: z.object({
+    scripts: z.number(),
+    stylesheets: z.number(),
+    bytes: z.number(),
+    resources: z.array(z.object({
+      url: z.string(),
+      type: z.enum(['script', 'stylesheet']),
+      bytes: z.number().nullable(),
+      compressed: z.boolean(),
+    })),
+  }),
+  images: z.object({
+    count: z.number(),
+    bytes: z.number(),
+  }),
+  uncompressedResources: z.number(),
+  estimatedLoadMs: z.object({
+    desktop: z.number(),
+    mobile: z.number(),
+  }),
+});
+
+export const lighthouseCategoriesSchema = z.object({
+  performance: z.number().nullable(),
+  accessibility: z.number().nullable(),
+  bestPractices: z.number().nullable(),
+  seo: z.number().nullable(),
+});
+
+// Lab values in milliseconds, except the unitless CLS
+export const labMetricsSchema = z.object({
+  lcp: z.number().nullable(),
+  fcp: z.number().nullable(),
+  si: z.number().nullable(),
+  tbt: z.number().nullable(),
+  cls: z.number().nullable(),
+  ttfb: z.number().nullable().optional(),
+});
+
+// Chrome UX Report 75th percentile for one metric, as returned by PageSpeed Insights
+export const fieldMetricSchema = z.object({
+  percentile: z.number(),
+  category: z.enum(['good', 'needs-improvement', 'poor']),
+});
+
+export const fieldDataSchema = z.object({
+  overall: z.enum(['good', 'needs-improvement', 'poor']).nullable(),
+  metrics: z.object({
+    lcp: fieldMetricSchema.optional(),
+    inp: fieldMetricSchema.optional(),
+    cls: fieldMetricSchema.optional(),
+    fcp: fieldMetricSchema.optional(),
+    ttfb: fieldMetricSchema.optional(),
+  }),
+});
+
+export const lighthouseAuditSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  description: z.string(),
+  type: z.enum(['opportunity', 'diagnostic']),
+  score: z.number().nullable(),
+  displayValue: z.string().optional(),
+  savingsMs: z.number().optional(),
+  savingsBytes: z.number().optional(),
+  strategy: z.enum(['desktop', 'mobile']),
+});
+
 export const speedResultSchema = z.object({
   performance: z.object({
     score: z.number(),
@@ -49,11 +300,42 @@ export const speedResultSchema = z.object({
   }).optional(),
   coreWebVitals: z.object({
     lcp: z.string(),
-    fid: z.string(),
+    // Interaction to Next Paint only exists as field data
+    inp: z.string().optional(),
+    // First Input Delay, kept on audits stored before INP replaced it
+    fid: z.string().optional(),
     cls: z.string(),
     fcp: z.string().optional(),
     si: z.string().optional(),
   }).optional(),
+  // Lighthouse category scores (0-100) per strategy
+  categories: z.object({
+    desktop: lighthouseCategoriesSchema.optional(),
+    mobile: lighthouseCategoriesSchema.optional(),
+  }).optional(),
+  labMetrics: z.object({
+    desktop: labMetricsSchema.optional(),
+    mobile: labMetricsSchema.optional(),
+  }).optional(),
+  // Real-user data for the exact URL and for the whole origin
+  fieldData: z.object({
+    url: fieldDataSchema.optional(),
+    origin: fieldDataSchema.optional(),
+  }).optional(),
+  // Failing opportunities and diagnostics, largest savings first
+  opportunities: z.array(lighthouseAuditSchema).optional(),
+  // True when the scores are heuristics from `local` rather than Lighthouse
+  estimated: z.boolean().optional(),
+  local: localPerformanceSchema.optional(),
+});
+
+export const brokenLinkSchema = z.object({
+  url: z.string(),
+  text: z.string(),
+  type: z.enum(['internal', 'external']),
+  statusCode: z.number().nullable(),
+  occurrences: z.number(),
+  error: z.string().optional(),
 });
 
 export const linksResultSchema = z.object({
@@ -62,6 +344,7 @@ export const linksResultSchema = z.object({
     working: z.number(),
     broken: z.number(),
     status: z.enum(['good', 'warning', 'error']),
+    total: z.number().optional(),
   }),
   external: z.object({
     links: z.array(z.any()),
@@ -70,6 +353,13 @@ export const linksResultSchema = z.object({
     status: z.enum(['good', 'warning', 'error']),
     total: z.number().optional(),
   }),
+  brokenLinks: z.array(brokenLinkSchema).optional(),
+});
+
+export const robotsAccessSchema = z.object({
+  userAgent: z.string(),
+  allowed: z.boolean(),
+  rule: z.string().optional(),
 });
 
 export const robotsResultSchema = z.object({
@@ -78,12 +368,65 @@ export const robotsResultSchema = z.object({
     accessible: z.boolean(),
     size: z.number(),
     sitemaps: z.array(z.string()),
+    groups: z.number().optional(),
+    crawlDelays: z.array(z.object({
+      userAgent: z.string(),
+      delay: z.number(),
+    })).optional(),
+    errors: z.array(z.object({
+      line: z.number(),
+      message: z.string(),
+    })).optional(),
+    unknownDirectives: z.array(z.object({
+      line: z.number(),
+      directive: z.string(),
+    })).optional(),
+    // Whether the audited URL may be crawled, per user agent
+    access: z.array(robotsAccessSchema).optional(),
+    // Same-origin links on the page that at least one user agent may not crawl
+    blockedLinks: z.array(z.object({
+      url: z.string(),
+      userAgents: z.array(z.string()),
+    })).optional(),
   }),
   sitemap: z.object({
     found: z.boolean(),
     accessible: z.boolean(),
     urlCount: z.number(),
     format: z.string().optional(),
+    files: z.array(z.object({
+      url: z.string(),
+      // Unset for files that could not be loaded or are not sitemaps
+      type: z.enum(['urlset', 'sitemapindex', 'text']).optional(),
+      urlCount: z.number(),
+      sizeBytes: z.number(),
+      compressed: z.boolean(),
+      errors: z.array(z.string()),
+    })).optional(),
+    extensions: z.object({
+      lastmod: z.number(),
+      changefreq: z.number(),
+      priority: z.number(),
+      images: z.number(),
+      alternates: z.number(),
+    }).optional(),
+    // Lists are capped; the counts cover every entry
+    invalidEntries: z.array(z.object({
+      sitemap: z.string(),
+      entry: z.string(),
+      reason: z.string(),
+    })).optional(),
+    invalidEntryCount: z.number().optional(),
+    otherHostUrls: z.array(z.string()).optional(),
+    otherHostCount: z.number().optional(),
+    sample: z.object({
+      checked: z.number(),
+      failures: z.array(z.object({
+        url: z.string(),
+        statusCode: z.number().nullable(),
+        error: z.string().optional(),
+      })),
+    }).optional(),
   }),
 });
 
@@ -102,6 +445,57 @@ export const headersResultSchema = z.object({
   })).optional(),
 });
 
+export const redirectHopSchema = z.object({
+  url: z.string(),
+  statusCode: z.number(),
+  location: z.string().optional(),
+});
+
+export const redirectChainSchema = z.object({
+  url: z.string(),
+  finalUrl: z.string(),
+  hops: z.array(redirectHopSchema),
+  warnings: z.array(z.string()),
+  status: z.enum(['good', 'warning', 'error']),
+});
+
+export const redirectsResultSchema = z.object({
+  page: redirectChainSchema,
+  links: z.array(redirectChainSchema.extend({
+    text: z.string(),
+    type: z.enum(['internal', 'external']),
+  })),
+  summary: z.object({
+    redirectedLinks: z.number(),
+    longChains: z.number(),
+    loops: z.number(),
+    temporaryRedirects: z.number(),
+    httpsDowngrades: z.number(),
+  }),
+  status: z.enum(['good', 'warning', 'error']),
+});
+
+export const structuredDataEntitySchema = z.object({
+  format: z.enum(['json-ld', 'microdata', 'rdfa']),
+  type: z.string(),
+  properties: z.record(z.any()),
+  // One check per validated property, same shape as the meta tag checks
+  items: z.array(metaTagItemSchema),
+  status: z.enum(['good', 'warning', 'error']),
+});
+
+export const structuredDataResultSchema = z.object({
+  entities: z.array(structuredDataEntitySchema),
+  summary: z.object({
+    jsonLd: z.number(),
+    microdata: z.number(),
+    rdfa: z.number(),
+    errors: z.number(),
+    warnings: z.number(),
+  }),
+  status: z.enum(['good', 'warning', 'error']),
+});
+
 export const recommendationSchema = z.object({
   title: z.string(),
   description: z.string(),
@@ -120,15 +514,252 @@ export const auditResultSchema = z.object({
   links: linksResultSchema.optional(),
   robots: robotsResultSchema.optional(),
   headers: headersResultSchema.optional(),
+  redirects: redirectsResultSchema.optional(),
+  structuredData: structuredDataResultSchema.optional(),
   recommendations: z.array(recommendationSchema).optional(),
+  // Audit profile the audit ran with, if any
+  profile: z.string().optional(),
+  // The checks behind each category score, weighted by the scoring profile
+  scoreBreakdown: scoreBreakdownSchema.optional(),
+  // Score categories that are heuristic estimates rather than measurements
+  estimatedScores: z.array(scoreCategorySchema).optional(),
   errors: z.array(z.string()).optional(),
 });
 
+export const auditHistoryQuerySchema = z.object({
+  url: z.string().url("Invalid URL format").optional(),
+  domain: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(50),
+}).refine((query) => query.url || query.domain, {
+  message: "Either url or domain is required",
+});
+
+export const storedAuditSchema = auditResultSchema.extend({
+  id: z.number(),
+});
+
+// A pasted URL list or uploaded CSV, parsed on the server, and/or URLs that are already split out
+export const bulkAuditRequestSchema = z.object({
+  urls: z.array(z.string()).optional(),
+  csv: z.string().optional(),
+  profile: z.string().min(1).optional(),
+}).refine((request) => request.urls || request.csv, {
+  message: "Either urls or csv is required",
+});
+
+export const bulkAuditItemSchema = z.object({
+  url: z.string(),
+  status: z.enum(['queued', 'running', 'complete', 'failed']),
+  jobId: z.string().optional(),
+  // Set once the audit has been stored
+  auditId: z.number().optional(),
+  scores: scoreSchema.optional(),
+  topRecommendation: recommendationSchema.optional(),
+  error: z.string().optional(),
+});
+
+export const bulkAuditSchema = z.object({
+  id: z.string(),
+  status: z.enum(['running', 'complete']),
+  profile: z.string().optional(),
+  createdAt: z.string(),
+  completedAt: z.string().optional(),
+  items: z.array(bulkAuditItemSchema),
+});
+
+export const auditJobStatusSchema = z.enum(['running', 'complete', 'failed']);
+
+// What POST /api/audit returns; the result follows on the events stream
+export const auditJobSchema = z.object({
+  jobId: z.string(),
+  url: z.string(),
+  status: auditJobStatusSchema,
+  eventsUrl: z.string(),
+});
+
+const checkCountsSchema = z.object({
+  good: z.number(),
+  warning: z.number(),
+  error: z.number(),
+});
+
+// Server-Sent Events from GET /api/audits/:jobId/events, named after `type`
+export const auditEventSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('start'),
+    url: z.string(),
+    profile: z.string().optional(),
+    analyzers: z.array(z.object({ id: z.string(), name: z.string() })),
+  }),
+  z.object({
+    type: z.literal('analyzer-start'),
+    analyzer: z.string(),
+  }),
+  z.object({
+    type: z.literal('analyzer-done'),
+    analyzer: z.string(),
+    durationMs: z.number(),
+    result: z.unknown(),
+    checks: checkCountsSchema,
+  }),
+  z.object({
+    type: z.literal('analyzer-failed'),
+    analyzer: z.string(),
+    durationMs: z.number(),
+    error: z.string(),
+  }),
+  // The finished audit, with an `id` once it has been stored
+  z.object({
+    type: z.literal('complete'),
+    audit: z.union([storedAuditSchema, auditResultSchema]),
+  }),
+  z.object({
+    type: z.literal('failed'),
+    error: z.string(),
+  }),
+]);
+
+const scoreDeltaSchema = z.object({
+  before: z.number(),
+  after: z.number(),
+  delta: z.number(),
+});
+
+const auditRefSchema = z.object({
+  id: z.number(),
+  url: z.string(),
+  timestamp: z.string(),
+});
+
+export const auditDiffSchema = z.object({
+  base: auditRefSchema,
+  current: auditRefSchema,
+  scores: z.object({
+    overall: scoreDeltaSchema,
+    technical: scoreDeltaSchema,
+    content: scoreDeltaSchema,
+    performance: scoreDeltaSchema,
+    mobile: scoreDeltaSchema,
+  }),
+  metaChanges: z.array(z.object({
+    name: z.string(),
+    before: metaTagItemSchema.shape.status.nullable(),
+    after: metaTagItemSchema.shape.status.nullable(),
+    description: z.string(),
+    regression: z.boolean(),
+  })),
+  newlyBrokenLinks: z.array(z.object({
+    url: z.string(),
+    text: z.string(),
+    type: z.string(),
+    statusCode: z.number().nullable(),
+  })),
+  removedHeaders: z.array(z.object({
+    name: z.string(),
+    value: z.string().optional(),
+  })),
+  recommendations: z.object({
+    added: z.array(recommendationSchema),
+    resolved: z.array(recommendationSchema),
+  }),
+  regressions: z.number(),
+});
+
+export const crawlRequestSchema = z.object({
+  url: z.string().url("Invalid URL format"),
+  maxPages: z.number().int().min(1).max(200).default(25),
+  maxDepth: z.number().int().min(0).max(10).default(3),
+});
+
+export const crawlPageSchema = auditResultSchema.extend({
+  depth: z.number(),
+  statusCode: z.number().optional(),
+  internalLinks: z.number(),
+  // User agents robots.txt blocks from this page
+  blockedFor: z.array(z.string()).optional(),
+});
+
+export const crawlCoverageSchema = z.object({
+  sitemapUrls: z.number(),
+  linkedUrls: z.number(),
+  // Sitemap URLs whose noindex, redirect and canonical state is known
+  checkedSitemapUrls: z.number(),
+  // In the sitemap but not linked from any crawled page
+  orphanUrls: z.array(z.string()),
+  orphanCount: z.number(),
+  // Crawled, indexable pages the sitemap doesn't list
+  missingFromSitemap: z.array(z.string()),
+  noindexed: z.array(z.string()),
+  redirected: z.array(z.object({
+    url: z.string(),
+    target: z.string(),
+  })),
+  canonicalised: z.array(z.object({
+    url: z.string(),
+    canonical: z.string(),
+  })),
+});
+
+export const crawlResultSchema = z.object({
+  url: z.string(),
+  timestamp: z.string(),
+  maxPages: z.number(),
+  maxDepth: z.number(),
+  pages: z.array(crawlPageSchema),
+  coverage: crawlCoverageSchema,
+  totals: z.object({
+    pagesCrawled: z.number(),
+    pagesFailed: z.number(),
+    maxDepthReached: z.number(),
+    blockedPages: z.number(),
+    averageScores: scoreSchema,
+    metaIssues: z.object({
+      warning: z.number(),
+      error: z.number(),
+    }),
+    headerIssues: z.object({
+      warning: z.number(),
+      error: z.number(),
+    }),
+    duplicateTitles: z.array(z.string()),
+    duplicateDescriptions: z.array(z.string()),
+  }),
+});
+
 export type AuditRequest = z.infer<typeof auditRequestSchema>;
 export type AuditResult = z.infer<typeof auditResultSchema>;
+export type StoredAudit = z.infer<typeof storedAuditSchema>;
+export type BulkAuditRequest = z.infer<typeof bulkAuditRequestSchema>;
+export type BulkAuditItem = z.infer<typeof bulkAuditItemSchema>;
+export type BulkAudit = z.infer<typeof bulkAuditSchema>;
+export type AuditJobStatus = z.infer<typeof auditJobStatusSchema>;
+export type AuditJob = z.infer<typeof auditJobSchema>;
+export type AuditEvent = z.infer<typeof auditEventSchema>;
+export type AuditDiff = z.infer<typeof auditDiffSchema>;
+export type ScoreCategory = z.infer<typeof scoreCategorySchema>;
+export type ScoringProfile = z.infer<typeof scoringProfileSchema>;
+export type ScoreCheck = z.infer<typeof scoreCheckSchema>;
+export type ScoreBreakdown = z.infer<typeof scoreBreakdownSchema>;
 export type SpeedResult = z.infer<typeof speedResultSchema>;
+export type LocalPerformance = z.infer<typeof localPerformanceSchema>;
+export type LighthouseCategories = z.infer<typeof lighthouseCategoriesSchema>;
+export type LabMetrics = z.infer<typeof labMetricsSchema>;
+export type LighthouseAudit = z.infer<typeof lighthouseAuditSchema>;
+export type FieldMetric = z.infer<typeof fieldMetricSchema>;
+export type FieldData = z.infer<typeof fieldDataSchema>;
 export type LinksResult = z.infer<typeof linksResultSchema>;
+export type BrokenLink = z.infer<typeof brokenLinkSchema>;
 export type RobotsResult = z.infer<typeof robotsResultSchema>;
+export type RobotsAccess = z.infer<typeof robotsAccessSchema>;
 export type HeadersResult = z.infer<typeof headersResultSchema>;
+export type RedirectHop = z.infer<typeof redirectHopSchema>;
+export type RedirectChain = z.infer<typeof redirectChainSchema>;
+export type RedirectsResult = z.infer<typeof redirectsResultSchema>;
+export type StructuredDataEntity = z.infer<typeof structuredDataEntitySchema>;
+export type StructuredDataResult = z.infer<typeof structuredDataResultSchema>;
 export type MetaTagItem = z.infer<typeof metaTagItemSchema>;
 export type Recommendation = z.infer<typeof recommendationSchema>;
+export type CrawlRequest = z.infer<typeof crawlRequestSchema>;
+export type CrawlPage = z.infer<typeof crawlPageSchema>;
+export type CrawlResult = z.infer<typeof crawlResultSchema>;
+export type CrawlCoverage = z.infer<typeof crawlCoverageSchema>;